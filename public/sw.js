@@ -0,0 +1,141 @@
+// Service worker: keeps the app loading without a connection.
+//
+// The app shell (index.html and the hashed files of its build, including chunks loaded
+// on demand like the barcode reader) is cached on install and refreshed whenever the
+// page loads online. Itinerary images are cached as they're
+// seen or when the app asks for them. Trips themselves live in IndexedDB and need
+// nothing from here. Everything else, like AI and rate requests, goes straight to
+// the network.
+
+const SHELL_CACHE = 'shell-v1';
+const IMAGE_CACHE = 'images-v1';
+const MAX_IMAGES = 300;
+
+const ROOT = new URL('./', self.location).href;
+const SHELL_FILES = ['manifest.webmanifest', 'icon.svg'].map(file => new URL(file, ROOT).href);
+const ASSET_PATTERN = /(?:src|href)="([^"]*\/assets\/[^"]+)"/g;
+
+// Written by the build (see vite.config.ts): every file of it, lazily loaded chunks included
+const BUILD_MANIFEST = new URL('asset-manifest.json', ROOT).href;
+
+const getManifestFiles = async () => {
+  try {
+    const response = await fetch(BUILD_MANIFEST, { cache: 'no-cache' });
+    if (!response.ok) return null;
+    const chunks = Object.values(await response.json());
+    return chunks.flatMap(chunk => [chunk.file, ...(chunk.css || []), ...(chunk.assets || [])]).map(file => new URL(file, ROOT).href);
+  } catch {
+    return null;
+  }
+};
+
+// Stores a fresh index.html with every file of its build, and drops the files of older builds
+const cacheShell = async (response) => {
+  const cache = await caches.open(SHELL_CACHE);
+  const html = await response.clone().text();
+  const referenced = [...html.matchAll(ASSET_PATTERN)].map(match => new URL(match[1], ROOT).href);
+  const manifest = await getManifestFiles();
+  // A manifest from another deploy than this index.html can't say what's stale
+  const isSameBuild = manifest !== null && referenced.every(url => manifest.includes(url));
+  const assets = [...new Set([...referenced, ...(isSameBuild ? manifest : [])])];
+  await Promise.all(assets.map(async url => {
+    if (!(await cache.match(url))) await cache.add(url);
+  }));
+  await cache.put(ROOT, response);
+
+  // Without the full list, chunks loaded on demand would look stale, so nothing is dropped
+  if (!isSameBuild) return;
+  const current = new Set(assets);
+  const cached = await cache.keys();
+  await Promise.all(cached
+    .filter(request => request.url.includes('/assets/') && !current.has(request.url))
+    .map(request => cache.delete(request)));
+};
+
+const trimImages = async () => {
+  const cache = await caches.open(IMAGE_CACHE);
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - MAX_IMAGES)).map(request => cache.delete(request)));
+};
+
+// Images come from other sites, so they're fetched no-cors and kept as opaque responses
+const cacheImage = async (url) => {
+  const cache = await caches.open(IMAGE_CACHE);
+  if (await cache.match(url)) return;
+  try {
+    await cache.put(url, await fetch(url, { mode: 'no-cors' }));
+  } catch {
+    // Offline or gone; tried again next time
+  }
+};
+
+self.addEventListener('install', event => {
+  event.waitUntil((async () => {
+    const response = await fetch(ROOT, { cache: 'no-cache' });
+    if (response.ok) await cacheShell(response);
+    const cache = await caches.open(SHELL_CACHE);
+    await cache.addAll(SHELL_FILES);
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names.filter(name => name !== SHELL_CACHE && name !== IMAGE_CACHE).map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+self.addEventListener('message', event => {
+  if (event.data?.type !== 'cache-images' || !Array.isArray(event.data.urls)) return;
+  event.waitUntil(Promise.all(event.data.urls.map(cacheImage)).then(trimImages));
+});
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  // Pages: the network when there is one, so updates arrive; the cached shell otherwise
+  if (request.mode === 'navigate') {
+    event.respondWith((async () => {
+      try {
+        const response = await fetch(request);
+        if (response.ok && url.href.startsWith(ROOT)) event.waitUntil(cacheShell(response.clone()));
+        return response;
+      } catch {
+        return (await caches.match(ROOT)) || Response.error();
+      }
+    })());
+    return;
+  }
+
+  // The app's own files are named by content hash, so a cached copy is always right
+  if (url.origin === self.location.origin) {
+    event.respondWith((async () => {
+      const cached = await caches.match(request);
+      if (cached) return cached;
+      const response = await fetch(request);
+      if (response.ok && url.pathname.includes('/assets/')) {
+        const cache = await caches.open(SHELL_CACHE);
+        event.waitUntil(cache.put(request, response.clone()));
+      }
+      return response;
+    })());
+    return;
+  }
+
+  if (request.destination === 'image') {
+    event.respondWith((async () => {
+      const cache = await caches.open(IMAGE_CACHE);
+      const cached = await cache.match(request.url);
+      if (cached) return cached;
+      const response = await fetch(request);
+      if (response.ok || response.type === 'opaque') {
+        event.waitUntil(cache.put(request.url, response.clone()).then(trimImages));
+      }
+      return response;
+    })());
+  }
+});
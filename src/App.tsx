@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { 
   Plus, 
   MapPin, 
@@ -25,123 +25,152 @@ import {
   Download,
   Upload,
   ChevronDown,
-  ChevronUp
+  ChevronUp,
+  Lock,
+  Clock,
+  BedDouble,
+  Camera,
+  Receipt,
+  Target,
+  FileSpreadsheet,
+  Printer,
+  Banknote,
+  WifiOff,
+  Paperclip,
+  Ticket
 } from 'lucide-react';
 
-// --- Types ---
-
-type EventType = 'activity' | 'transport' | 'dining' | 'lodging';
-
-interface TravelEvent {
-  id: string;
-  title: string;
-  location: string;
-  startTime: string; // ISO string
-  endTime: string; // ISO string
-  type: EventType;
-  notes: string;
-  isCashOnly: boolean;
-  cost: number; 
-  currency: string; // ISO code e.g. 'EUR', 'USD', 'JPY'
-  
-  // Smart Content
-  imageUrl?: string;
-  mustDos?: string[];
-  warnings?: string[];
-  
-  // Transport specific
-  transportMode?: 'train' | 'bus' | 'flight';
-  seatInfo?: string; 
-  platform?: string;
-  transferInfo?: string; 
-  ticketFileRef?: string; 
-}
-
-interface ExpenseSummary {
-  totalHkd: number;
-  details: { [currency: string]: number };
-}
-
-interface Suggestion {
-  title: string;
-  location: string;
-  startTime: string; 
-  dayOffset: number; 
-  type: EventType;
-  cost: number;
-  currency?: string;
-  notes: string;
-  reason: string;
-}
-
-interface BackupData {
-  app: string;
-  version: number;
-  timestamp: string;
-  events: TravelEvent[];
-  rates: { [key: string]: number };
-}
-
-// --- Constants ---
-
-const DEFAULT_RATES: { [key: string]: number } = {
-  'EUR': 8.5,
-  'USD': 7.8,
-  'GBP': 10.1,
-  'JPY': 0.052,
-  'KRW': 0.006,
-  'TWD': 0.25,
-  'CNY': 1.1,
-  'HKD': 1.0
-};
+import type { EventType, TransportLeg, TransportMode, TravelEvent, Trip, TripDetails, ExpenseSummary, Suggestion, BackupData, RateHistory, PaymentMethod, PaymentStatus, SpendTotals, Expense, CostSplit, SplitMode, Budget, CashEntry, Attachment, BackupFile, StoredFile } from './types';
+import { createCashEntry, getCashOnHand } from './cash';
+import { getDailyAllowance, getNewOverruns, hasBudget, convertBudget, type BudgetOverrun } from './budget';
+import { createSplit, getBalances, getSplitAmounts, getUnassigned, settleUp } from './split';
+import { DEFAULT_HOME_CURRENCY, changeHomeCurrency, convertRateHistory, createTrip, getDefaultRates, getTripDetails } from './trips';
+import { CURRENCY_CODES, convertRates, formatAmount, formatMoney, getCurrencyName } from './currency';
+import {
+  toLocalISOString,
+  getDeviceTimeZone,
+  getSupportedTimeZones,
+  getEventStart,
+  getEventEnd,
+  getEventEndZone,
+  getDateInZone,
+  formatTimeInZone,
+  getZoneAbbreviation,
+  formatDuration
+} from './time';
+import { buildCalendar, parseCalendar, filterEventsByDate } from './ics';
+import { openStorage, SCHEMA_VERSION, type StorageBackend } from './storage';
+import { EVENT_TYPES, EXPENSE_CATEGORIES, validateEventList, type ImportReport } from './validation';
+import {
+  parseBackup,
+  diffEvents,
+  diffCalendarEvents,
+  applyMerge,
+  getDefaultChoice,
+  isEncryptedBackup,
+  encryptBackup,
+  decryptBackup,
+  toBackupFile,
+  fromBackupFile,
+  type MergeEntry,
+  type MergeChoice
+} from './backup';
+import { checkSchedule, groupIssuesByEvent, type ScheduleIssue } from './schedule';
+import {
+  AI_PROVIDERS,
+  describeAiError,
+  generateStructured,
+  generateText,
+  loadAiSettings,
+  saveAiSettings,
+  type AiProviderId,
+  type AiSettings
+} from './ai';
+import { costEstimateSchema, eventGuideSchema, smartPasteSchema, suggestionsSchema } from './aiSchemas';
+import { isCompleteDraft, parseBookingText } from './smartPaste';
+import { addMissingRates, createRateLookup, fetchRateQuotes, getRateRange, importRateHistory, isPlaceholderRate, loadRatesEndpoint, parseRateFile, saveRatesEndpoint, type RateQuotes } from './rates';
+import { getLodgingForNight, getStayCost, getStayNights } from './lodging';
+import { CATEGORY_LABELS, createExpense, getActualCost, getEventSpend, summarizeExpenses } from './expenses';
+import { buildCsv, buildStatementHtml, getReportRows } from './report';
+import { cacheImages, getQueueRetryDelay, isNetworkError, isOfflineError, loadAiQueue, MAX_QUEUE_ATTEMPTS, saveAiQueue, type QueuedAiAction } from './offline';
+import { readBarcodes, shrinkPhoto } from './files';
+import { boardingPassToEvent, parseBoardingPass } from './boardingPass';
+import { applyJourney, createLeg, describeRoute, getConnections, getLegArrival, getLegDeparture, legFromEvent, type Connection, type ConnectionRisk } from './journeys';
 
 // --- Helpers ---
 
-const toLocalISOString = (date: Date) => {
-  const tzOffset = date.getTimezoneOffset() * 60000;
-  const localISOTime = (new Date(date.getTime() - tzOffset)).toISOString().slice(0, 16);
-  return localISOTime;
+const formatTripDates = (trip: Trip) => {
+  if (!trip.startDate) return 'No dates set';
+  const fmt = (d: string) => new Date(`${d}T00:00`).toLocaleDateString([], { month: 'short', day: 'numeric' });
+  return trip.endDate && trip.endDate !== trip.startDate ? `${fmt(trip.startDate)} - ${fmt(trip.endDate)}` : fmt(trip.startDate);
 };
 
-// Robust JSON parser for AI responses
-const parseGeminiResponse = (text: string) => {
-  try {
-    let clean = text.replace(/```json/g, '').replace(/```/g, '').trim();
-    try {
-      return JSON.parse(clean);
-    } catch {
-      const match = clean.match(/\{[\s\S]*\}|\[[\s\S]*\]/);
-      if (match) {
-        return JSON.parse(match[0]);
-      }
-      throw new Error("No JSON found");
-    }
-  } catch (error) {
-    console.error("JSON Parse Failed:", error);
-    throw error;
-  }
+// Triggers a browser download through a temporary link
+const downloadFile = (content: string, filename: string, type: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+
+  // Cleanup
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
 };
 
-const callGemini = async (prompt: string): Promise<string> => {
-  const apiKey = ""; 
-  try {
-    const response = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash-preview-09-2025:generateContent?key=${apiKey}`,
-      {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          contents: [{ parts: [{ text: prompt }] }],
-        }),
-      }
-    );
-    const data = await response.json();
-    if (!response.ok) throw new Error(data.error?.message || "API Error");
-    return data.candidates?.[0]?.content?.parts?.[0]?.text || "";
-  } catch (error) {
-    console.error("Gemini API Error:", error);
-    return "";
+// New events default to the zone of the most recently added zoned event (its arrival zone for transport)
+const createEmptyForm = (events: TravelEvent[]): Partial<TravelEvent> => {
+  const lastZoned = [...events].reverse().find(e => e.timeZone);
+  return {
+    type: 'activity',
+    isCashOnly: false,
+    startTime: toLocalISOString(new Date()),
+    timeZone: lastZoned ? getEventEndZone(lastZoned) : getDeviceTimeZone(),
+    cost: 0,
+    currency: 'EUR'
+  };
+};
+
+// The stored event for a filled-in form (journeys already applied)
+const toEventData = (form: Partial<TravelEvent>) => {
+  const eventData: Omit<TravelEvent, 'id'> = {
+    title: form.title || 'Untitled',
+    location: form.location || '',
+    startTime: form.startTime || '',
+    endTime: form.endTime || '',
+    timeZone: form.timeZone,
+    endTimeZone: form.type === 'transport' ? form.endTimeZone : undefined,
+    type: form.type as EventType,
+    notes: form.notes || '',
+    isCashOnly: form.isCashOnly || false,
+    cost: Number(form.cost) || 0,
+    currency: form.currency?.toUpperCase() || 'EUR',
+    actualCost: form.actualCost,
+    paymentStatus: form.paymentStatus,
+    paymentMethod: form.paymentMethod,
+    cardRate: form.paymentMethod === 'card' ? form.cardRate : undefined,
+    split: form.split,
+    seatInfo: form.seatInfo,
+    platform: form.platform,
+    transferInfo: form.transferInfo,
+    ticketFileRef: form.ticketFileRef,
+    transportMode: form.transportMode,
+    imageUrl: form.imageUrl,
+    mustDos: form.mustDos,
+    warnings: form.warnings,
+    legs: form.legs,
+    attachments: form.attachments?.length ? form.attachments : undefined,
+    address: form.type === 'lodging' ? form.address : undefined,
+    confirmationCode: form.type === 'lodging' ? form.confirmationCode : undefined,
+    costPerNight: form.type === 'lodging' ? form.costPerNight : undefined,
+    spreadCost: form.type === 'lodging' ? form.spreadCost : undefined,
+  };
+  if (eventData.costPerNight !== undefined) {
+    eventData.cost = getStayCost({ ...eventData, id: '' });
   }
+  return eventData;
 };
 
 const fetchWikiImage = async (query: string): Promise<string | undefined> => {
@@ -167,6 +196,31 @@ const fetchWikiImage = async (query: string): Promise<string | undefined> => {
   }
 };
 
+// Tips, warnings and a picture for a place
+const fetchEventGuide = async ({ title, location }: { title: string; location: string }) => {
+  const prompt = `
+      Analyze location: "${location}" and title: "${title}".
+      Return JSON:
+      {
+        "mustDo": ["short phrase 1", "short phrase 2"],
+        "warnings": ["short warning 1"],
+        "wikiSearchTerm": "Wikipedia exact title for image search"
+      }
+    `;
+  const info = await generateStructured(prompt, eventGuideSchema);
+  const imageUrl = await fetchWikiImage(info.wikiSearchTerm || title);
+  return { mustDos: info.mustDo, warnings: info.warnings, imageUrl };
+};
+
+const fetchCostEstimate = ({ title, location }: { title?: string; location?: string }) => {
+  const prompt = `Estimate cost for 1 person: "${title}" at "${location}". 
+    Return JSON: { "cost": number, "currency": "ISO code (e.g. EUR, GBP, JPY)" }. 
+    If free return 0 cost. Guess the local currency based on location.`;
+  return generateStructured(prompt, costEstimateSchema);
+};
+
+type RestoreMode = 'replace' | 'merge';
+
 // --- UI Components ---
 
 const IOSCard = React.memo(({ children, className = "", onClick = undefined }: { children: React.ReactNode, className?: string, onClick?: () => void }) => (
@@ -200,6 +254,30 @@ const IOSButton = ({ onClick, children, variant = 'primary', className = "", dis
   );
 };
 
+// "+HK$120" in red when over the plan, "−HK$40" in green when under; nothing when on plan
+const VarianceLabel = ({ totals, currency }: { totals: SpendTotals; currency: string }) => {
+  const difference = Math.round(totals.actual - totals.planned);
+  if (difference === 0) return null;
+  return (
+    <span className={`text-[12px] font-medium ${difference > 0 ? 'text-[#FF3B30]' : 'text-[#34C759]'}`}>
+      {difference > 0 ? '+' : '−'}{formatMoney(Math.abs(difference), currency, { whole: true })}
+    </span>
+  );
+};
+
+// Spending against a limit: green, orange past 80%, red once over
+const BudgetBar = ({ spent, limit, track = 'bg-[#E5E5EA]' }: { spent: number; limit: number; track?: string }) => {
+  const ratio = spent / limit;
+  return (
+    <div className={`h-1.5 rounded-full overflow-hidden ${track}`}>
+      <div
+        className={`h-full rounded-full ${ratio > 1 ? 'bg-[#FF3B30]' : ratio > 0.8 ? 'bg-[#FF9500]' : 'bg-[#34C759]'}`}
+        style={{ width: `${Math.min(100, ratio * 100)}%` }}
+      />
+    </div>
+  );
+};
+
 const IOSInput = ({ label, value, onChange, type = "text", step, placeholder = "", className = "", rightElement = null }: any) => (
   <div className={`bg-white px-4 py-3 flex items-center justify-between border-b border-[#E5E5EA] last:border-0 ${className}`}>
     <label className="text-[15px] font-medium text-black w-1/3 shrink-0">{label}</label>
@@ -217,6 +295,45 @@ const IOSInput = ({ label, value, onChange, type = "text", step, placeholder = "
   </div>
 );
 
+const TIME_ZONES = getSupportedTimeZones();
+
+const IOSTimeZoneSelect = ({ label, value, onChange, placeholder = "Device time" }: { label: string, value?: string, onChange: (zone: string) => void, placeholder?: string }) => (
+  <div className="bg-white px-4 py-3 flex items-center justify-between border-b border-[#E5E5EA] last:border-0">
+    <label className="text-[15px] font-medium text-black w-1/3 shrink-0">{label}</label>
+    <select
+      className="w-full text-right text-[15px] text-[#8E8E93] focus:text-black outline-none bg-transparent"
+      value={value || ''}
+      onChange={(e) => onChange(e.target.value)}
+    >
+      <option value="">{placeholder}</option>
+      {TIME_ZONES.map(zone => <option key={zone} value={zone}>{zone.replace(/_/g, ' ')}</option>)}
+    </select>
+  </div>
+);
+
+const IOSCurrencySelect = ({ label, value, onChange }: { label: string, value: string, onChange: (currency: string) => void }) => (
+  <div className="bg-white px-4 py-3 flex items-center justify-between border-b border-[#E5E5EA] last:border-0">
+    <label className="text-[15px] font-medium text-black w-1/3 shrink-0">{label}</label>
+    <select
+      className="w-full text-right text-[15px] text-[#8E8E93] focus:text-black outline-none bg-transparent"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+    >
+      {!CURRENCY_CODES.includes(value) && <option value={value}>{value}</option>}
+      {CURRENCY_CODES.map(code => <option key={code} value={code}>{code} · {getCurrencyName(code)}</option>)}
+    </select>
+  </div>
+);
+
+const IOSSwitch = ({ checked, onChange }: { checked: boolean, onChange: () => void }) => (
+  <div 
+     onClick={onChange}
+     className={`w-[51px] h-[31px] rounded-full p-[2px] cursor-pointer transition-colors duration-200 shrink-0 ${checked ? 'bg-[#34C759]' : 'bg-[#E5E5EA]'}`}
+  >
+     <div className={`w-[27px] h-[27px] bg-white rounded-full shadow-sm transition-transform duration-200 ${checked ? 'translate-x-[20px]' : 'translate-x-0'}`} />
+  </div>
+);
+
 const IOSSegmentedControl = ({ options, selected, onChange }: any) => (
   <div className="bg-[#E5E5EA] p-1 rounded-xl flex">
     {options.map((opt: any) => (
@@ -235,11 +352,74 @@ const IOSSegmentedControl = ({ options, selected, onChange }: any) => (
   </div>
 );
 
+const DateTimeRow = ({ label, value, onChange }: { label: string, value: string, onChange: (value: string) => void }) => (
+  <div className="bg-white px-4 py-3 flex items-center justify-between border-b border-[#E5E5EA]">
+    <label className="text-[15px] font-medium text-black">{label}</label>
+    <input
+      type="datetime-local"
+      className="text-right text-[15px] text-[#8E8E93] bg-transparent outline-none"
+      value={value}
+      onChange={e => onChange(e.target.value)}
+    />
+  </div>
+);
+
+const CONNECTION_STYLES: { [risk in ConnectionRisk]: string } = {
+  ok: 'text-[#8E8E93]',
+  tight: 'text-orange-600 bg-orange-50',
+  missed: 'text-[#FF3B30] bg-[#FF3B30]/10'
+};
+
+const ConnectionRow = ({ connection }: { connection: Connection }) => (
+  <div className={`flex items-center gap-1.5 text-[12px] font-medium px-3 py-1 rounded-lg ${CONNECTION_STYLES[connection.risk]}`}>
+    {connection.risk === 'ok' ? <Clock className="w-3 h-3" /> : <AlertTriangle className="w-3 h-3" />}
+    <span>
+      {connection.risk === 'missed'
+        ? `Missed connection: next leg leaves ${formatDuration(-connection.durationMs)} early`
+        : `Change at ${connection.station || 'station'} · ${formatDuration(connection.durationMs)}`}
+      {connection.risk === 'tight' && ` (allow ${formatDuration(connection.minimumMs)})`}
+    </span>
+  </div>
+);
+
+const LegEditor = ({ leg, index, onChange, onRemove }: { leg: TransportLeg, index: number, onChange: (leg: TransportLeg) => void, onRemove: () => void }) => (
+  <div className="bg-white rounded-xl overflow-hidden border border-[#E5E5EA]">
+    <div className="px-4 py-2 flex items-center justify-between bg-[#F9F9F9] border-b border-[#E5E5EA]">
+      <span className="text-[13px] font-semibold text-[#8E8E93] uppercase">Leg {index + 1}</span>
+      <button onClick={onRemove} className="text-[#FF3B30] p-1" title="Remove leg">
+        <Trash2 className="w-4 h-4" />
+      </button>
+    </div>
+    <div className="p-3 border-b border-[#E5E5EA]">
+      <IOSSegmentedControl
+        options={[
+          {label: 'Train', value: 'train'},
+          {label: 'Bus', value: 'bus'},
+          {label: 'Flight', value: 'flight'}
+        ]}
+        selected={leg.mode}
+        onChange={(v: string) => onChange({ ...leg, mode: v as TransportMode })}
+      />
+    </div>
+    <IOSInput label="Carrier" placeholder="SBB" value={leg.carrier} onChange={(e: React.ChangeEvent<HTMLInputElement>) => onChange({ ...leg, carrier: e.target.value || undefined })} />
+    <IOSInput label="Number" placeholder="EC 317" value={leg.number} onChange={(e: React.ChangeEvent<HTMLInputElement>) => onChange({ ...leg, number: e.target.value || undefined })} />
+    <IOSInput label="From" placeholder="Milano Centrale" value={leg.from} onChange={(e: React.ChangeEvent<HTMLInputElement>) => onChange({ ...leg, from: e.target.value })} />
+    <DateTimeRow label="Departs" value={leg.departureTime} onChange={departureTime => onChange({ ...leg, departureTime })} />
+    <IOSTimeZoneSelect label="Departure Zone" value={leg.departureTimeZone} onChange={zone => onChange({ ...leg, departureTimeZone: zone || undefined })} />
+    <IOSInput label="To" placeholder="Zürich HB" value={leg.to} onChange={(e: React.ChangeEvent<HTMLInputElement>) => onChange({ ...leg, to: e.target.value })} />
+    <DateTimeRow label="Arrives" value={leg.arrivalTime} onChange={arrivalTime => onChange({ ...leg, arrivalTime })} />
+    <IOSTimeZoneSelect label="Arrival Zone" value={leg.arrivalTimeZone} placeholder="Same as departure" onChange={zone => onChange({ ...leg, arrivalTimeZone: zone || undefined })} />
+    <IOSInput label="Platform" placeholder="Track 9" value={leg.platform} onChange={(e: React.ChangeEvent<HTMLInputElement>) => onChange({ ...leg, platform: e.target.value || undefined })} />
+    <IOSInput label="Seat" placeholder="Car 4, Seat 22A" value={leg.seat} onChange={(e: React.ChangeEvent<HTMLInputElement>) => onChange({ ...leg, seat: e.target.value || undefined })} />
+  </div>
+);
+
 const SystemModal = ({ 
   isOpen, 
   title, 
   message, 
   type = 'alert', 
+  confirmLabel = 'Delete',
   onClose, 
   onConfirm 
 }: { 
@@ -247,6 +427,7 @@ const SystemModal = ({
   title: string; 
   message: string; 
   type?: 'alert' | 'confirm'; 
+  confirmLabel?: string;
   onClose: () => void; 
   onConfirm?: () => void;
 }) => {
@@ -274,7 +455,7 @@ const SystemModal = ({
             }}
             className={`flex-1 py-3 text-[15px] font-semibold active:bg-slate-50 ${type === 'confirm' ? 'text-red-600' : 'text-blue-600'}`}
           >
-            {type === 'confirm' ? 'Delete' : 'OK'}
+            {type === 'confirm' ? confirmLabel : 'OK'}
           </button>
         </div>
       </div>
@@ -308,7 +489,7 @@ const SmartPasteModal = ({ isOpen, onClose, onProcess }: any) => {
           <div className="bg-blue-50 p-3 rounded-lg mb-3 flex gap-2 items-start">
              <AlertCircle className="w-4 h-4 text-blue-600 shrink-0 mt-0.5" />
              <p className="text-xs text-blue-800">
-               <strong>Privacy Note:</strong> Paste ticket emails or plans. I'll detect the time, location, cost, and local currency automatically.
+               <strong>Privacy Note:</strong> Paste ticket emails or plans. Trenitalia, SNCF, DB, Ryanair, easyJet, Booking.com, Airbnb and restaurant confirmations are read on your device; anything else is sent to the AI.
              </p>
           </div>
           <textarea 
@@ -328,46 +509,1395 @@ const SmartPasteModal = ({ isOpen, onClose, onProcess }: any) => {
   );
 };
 
-// New Restore Modal
-const RestoreModal = ({ isOpen, onClose, onRestore }: { isOpen: boolean, onClose: () => void, onRestore: (text: string) => void }) => {
-  const [text, setText] = useState("");
+// One row per extracted event: keep or discard it, and fix anything that was misread
+const PasteReviewModal = ({
+  drafts,
+  onCancel,
+  onAdd
+}: {
+  drafts: Partial<TravelEvent>[] | null;
+  onCancel: () => void;
+  onAdd: (drafts: Partial<TravelEvent>[]) => void;
+}) => {
+  const [edits, setEdits] = useState<{ [index: number]: Partial<TravelEvent> }>({});
+  const [discarded, setDiscarded] = useState<{ [index: number]: boolean }>({});
+  const [editing, setEditing] = useState<number | null>(null);
+
+  if (!drafts) return null;
+
+  const items = drafts.map((draft, i) => ({ ...draft, ...edits[i] }));
+  const isAddable = (item: Partial<TravelEvent>) => !!item.title && !!item.startTime && !isNaN(Date.parse(item.startTime));
+  const accepted = items.filter((item, i) => !discarded[i] && isAddable(item));
+
+  const updateItem = (i: number, fields: Partial<TravelEvent>) => setEdits({ ...edits, [i]: { ...edits[i], ...fields } });
+
+  const handleClose = (add: boolean) => {
+    if (add) onAdd(accepted); else onCancel();
+    setEdits({});
+    setDiscarded({});
+    setEditing(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/20 backdrop-blur-sm animate-in fade-in">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-sm overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-4 border-b border-slate-100 flex justify-between items-center">
+          <h3 className="font-semibold text-lg">Review Events</h3>
+          <button onClick={() => handleClose(false)}><X className="w-5 h-5 text-slate-400" /></button>
+        </div>
+        <div className="px-4 py-2 text-[12px] text-[#8E8E93] border-b border-slate-100">
+          Found {items.length} events. Choose which to add, and tap the pencil to fix anything that was misread.
+        </div>
+
+        <div className="overflow-y-auto flex-1">
+          {items.map((item, i) => (
+            <div key={i} className={`px-4 py-3 border-b border-[#E5E5EA] last:border-0 ${discarded[i] ? 'opacity-50' : ''}`}>
+              <div className="flex items-start justify-between gap-2 mb-2">
+                <div className="flex flex-col min-w-0">
+                  <span className="text-[15px] font-semibold text-black truncate">{item.title || 'Untitled'}</span>
+                  <span className="text-[12px] text-[#8E8E93]">
+                    {isAddable(item)
+                      ? new Date(item.startTime!).toLocaleString([], { weekday: 'short', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+                      : <span className="text-red-500">Needs a title and start time</span>}
+                    {item.cost ? ` · ${formatMoney(Number(item.cost), item.currency || 'EUR')}` : ''}
+                  </span>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <span className="text-[10px] font-bold px-2 py-0.5 rounded-full bg-slate-100 text-slate-600 uppercase">{item.type || 'activity'}</span>
+                  <button onClick={() => setEditing(editing === i ? null : i)} className="p-1 text-[#007AFF]">
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+
+              {editing === i && (
+                <div className="rounded-xl overflow-hidden border border-[#E5E5EA] mb-2">
+                  <IOSInput label="Title" value={item.title} onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateItem(i, { title: e.target.value })} />
+                  <IOSInput label="Location" value={item.location} onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateItem(i, { location: e.target.value })} />
+                  <IOSInput label="Start" type="datetime-local" value={item.startTime} onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateItem(i, { startTime: e.target.value })} />
+                  <IOSInput label="End" type="datetime-local" value={item.endTime} onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateItem(i, { endTime: e.target.value })} />
+                  <IOSInput
+                    label="Cost"
+                    type="number"
+                    step="0.01"
+                    value={item.cost}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateItem(i, { cost: Number(e.target.value) })}
+                    rightElement={
+                      <input
+                        className="w-12 text-right text-[15px] text-[#8E8E93] focus:text-black outline-none bg-transparent uppercase"
+                        value={item.currency || ''}
+                        placeholder="EUR"
+                        maxLength={3}
+                        onChange={(e) => updateItem(i, { currency: e.target.value.toUpperCase() })}
+                      />
+                    }
+                  />
+                </div>
+              )}
+
+              <IOSSegmentedControl
+                options={[
+                  {label: 'Add', value: 'add'},
+                  {label: 'Discard', value: 'discard'}
+                ]}
+                selected={discarded[i] ? 'discard' : 'add'}
+                onChange={(v: string) => setDiscarded({ ...discarded, [i]: v === 'discard' })}
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="p-4 flex gap-3 border-t border-slate-100">
+          <IOSButton variant="secondary" onClick={() => handleClose(false)} className="flex-1">Cancel</IOSButton>
+          <IOSButton variant="primary" onClick={() => handleClose(true)} disabled={accepted.length === 0} className="flex-1">
+            Add {accepted.length} {accepted.length === 1 ? 'Event' : 'Events'}
+          </IOSButton>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const ExportBackupModal = ({ isOpen, onClose, onExport }: { isOpen: boolean, onClose: () => void, onExport: (passphrase?: string, includeFiles?: boolean) => Promise<void> }) => {
+  const [encrypt, setEncrypt] = useState(false);
+  const [includeFiles, setIncludeFiles] = useState(false);
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  if (!isOpen) return null;
+
+  const mismatch = encrypt && confirmation !== '' && passphrase !== confirmation;
+  const canExport = !encrypt || (passphrase.length >= 8 && passphrase === confirmation);
+
+  const handleClose = () => {
+    setPassphrase("");
+    setConfirmation("");
+    onClose();
+  };
+
+  const handleExport = async () => {
+    if (!canExport) return;
+    setLoading(true);
+    try {
+      await onExport(encrypt ? passphrase : undefined, includeFiles);
+    } finally {
+      setLoading(false);
+      handleClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/20 backdrop-blur-sm animate-in fade-in">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-sm overflow-hidden">
+        <div className="p-4 border-b border-slate-100 flex justify-between items-center">
+          <h3 className="font-semibold text-lg">Save Backup</h3>
+          <button onClick={handleClose}><X className="w-5 h-5 text-slate-400" /></button>
+        </div>
+        <div className="p-4 space-y-3">
+          <div className="bg-slate-50 rounded-xl px-4 py-3 border border-slate-200 flex items-center justify-between">
+            <span className="text-[15px] font-medium text-black flex items-center gap-2"><Lock className="w-4 h-4 text-purple-600" /> Encrypt</span>
+            <IOSSwitch checked={encrypt} onChange={() => setEncrypt(!encrypt)} />
+          </div>
+          <div className="bg-slate-50 rounded-xl px-4 py-3 border border-slate-200 flex items-center justify-between">
+            <span className="text-[15px] font-medium text-black flex items-center gap-2"><Paperclip className="w-4 h-4 text-orange-600" /> Include tickets & photos</span>
+            <IOSSwitch checked={includeFiles} onChange={() => setIncludeFiles(!includeFiles)} />
+          </div>
+          {includeFiles && <p className="text-xs text-slate-500">Attached tickets and receipt photos can make the file several MB.</p>}
+          {encrypt ? (
+            <>
+              <input
+                type="password"
+                className="w-full p-3 bg-slate-50 rounded-xl border border-slate-200 text-sm focus:outline-blue-500"
+                placeholder="Passphrase (at least 8 characters)"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+              />
+              <input
+                type="password"
+                className="w-full p-3 bg-slate-50 rounded-xl border border-slate-200 text-sm focus:outline-blue-500"
+                placeholder="Repeat passphrase"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+              />
+              {mismatch && <p className="text-xs text-red-600">Passphrases don't match.</p>}
+              <p className="text-xs text-slate-500">There is no way to recover a forgotten passphrase.</p>
+            </>
+          ) : (
+            <div className="bg-orange-50 p-3 rounded-lg flex gap-2 items-start">
+              <AlertTriangle className="w-4 h-4 text-orange-600 shrink-0 mt-0.5" />
+              <p className="text-xs text-orange-800">
+                The file will contain seat numbers, ticket references and notes as <u>plain text</u>.
+              </p>
+            </div>
+          )}
+        </div>
+        <div className="p-4 pt-0">
+          <IOSButton variant="primary" onClick={handleExport} disabled={!canExport || loading} className="w-full">
+            {loading ? <Loader2 className="w-5 h-5 animate-spin" /> : <><Download className="w-4 h-4" /> Download Backup</>}
+          </IOSButton>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const AiSettingsModal = ({ isOpen, onClose }: { isOpen: boolean, onClose: () => void }) => {
+  // Only the saved settings are used by the app; this draft is discarded on close
+  const [draft, setDraft] = useState<AiSettings>(loadAiSettings);
+  const [testState, setTestState] = useState<{ status: 'idle' | 'testing' | 'ok' | 'failed'; message?: string }>({ status: 'idle' });
+
+  if (!isOpen) return null;
+
+  const provider = AI_PROVIDERS.find(p => p.id === draft.provider)!;
+  const handleClose = () => {
+    setDraft(loadAiSettings());
+    setTestState({ status: 'idle' });
+    onClose();
+  };
+  const handleSave = () => {
+    saveAiSettings(draft);
+    setTestState({ status: 'idle' });
+    onClose();
+  };
+  const handleTest = async () => {
+    setTestState({ status: 'testing' });
+    try {
+      await generateText('Reply with the JSON object {"ok": true} and nothing else.', undefined, { ...draft, maxRetries: 0 });
+      setTestState({ status: 'ok', message: 'Connected.' });
+    } catch (e) {
+      setTestState({ status: 'failed', message: describeAiError(e).message });
+    }
+  };
+
+  const inputClass = "w-full p-3 bg-slate-50 rounded-xl border border-slate-200 text-sm focus:outline-blue-500";
+  const modelInput = (value: string, onChange: (model: string) => void) => (
+    <>
+      <input list="ai-models" className={inputClass} placeholder="Model" value={value} onChange={(e) => onChange(e.target.value)} />
+      <datalist id="ai-models">
+        {provider.models.map(model => <option key={model} value={model} />)}
+      </datalist>
+    </>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/20 backdrop-blur-sm animate-in fade-in">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-sm overflow-hidden">
+        <div className="p-4 border-b border-slate-100 flex justify-between items-center">
+          <h3 className="font-semibold text-lg">AI Assistant</h3>
+          <button onClick={handleClose}><X className="w-5 h-5 text-slate-400" /></button>
+        </div>
+        <div className="p-4 space-y-3">
+          <select
+            className={inputClass}
+            value={draft.provider}
+            onChange={(e) => { setDraft({ ...draft, provider: e.target.value as AiProviderId }); setTestState({ status: 'idle' }); }}
+          >
+            {AI_PROVIDERS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+          </select>
+
+          {draft.provider === 'gemini' && (
+            <>
+              <input type="password" className={inputClass} placeholder="Gemini API key" value={draft.gemini.apiKey} onChange={(e) => setDraft({ ...draft, gemini: { ...draft.gemini, apiKey: e.target.value.trim() } })} />
+              {modelInput(draft.gemini.model, model => setDraft({ ...draft, gemini: { ...draft.gemini, model } }))}
+            </>
+          )}
+          {draft.provider === 'openai' && (
+            <>
+              <input className={inputClass} placeholder="https://api.openai.com/v1" value={draft.openai.baseUrl} onChange={(e) => setDraft({ ...draft, openai: { ...draft.openai, baseUrl: e.target.value.trim() } })} />
+              <input type="password" className={inputClass} placeholder="API key (optional for local servers)" value={draft.openai.apiKey} onChange={(e) => setDraft({ ...draft, openai: { ...draft.openai, apiKey: e.target.value.trim() } })} />
+              {modelInput(draft.openai.model, model => setDraft({ ...draft, openai: { ...draft.openai, model } }))}
+            </>
+          )}
+          {draft.provider === 'ollama' && (
+            <>
+              <input className={inputClass} placeholder="http://localhost:11434" value={draft.ollama.baseUrl} onChange={(e) => setDraft({ ...draft, ollama: { ...draft.ollama, baseUrl: e.target.value.trim() } })} />
+              {modelInput(draft.ollama.model, model => setDraft({ ...draft, ollama: { ...draft.ollama, model } }))}
+            </>
+          )}
+          {draft.provider === 'mock' && (
+            <p className="text-xs text-slate-500">Returns the same sample answers every time. Useful for trying the features without a key or connection.</p>
+          )}
+
+          {draft.provider !== 'mock' && (
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-slate-600">Timeout</span>
+              <select
+                className="bg-slate-50 rounded-lg border border-slate-200 px-2 py-1"
+                value={draft.timeoutMs}
+                onChange={(e) => setDraft({ ...draft, timeoutMs: Number(e.target.value) })}
+              >
+                {[15000, 30000, 60000, 120000].map(ms => <option key={ms} value={ms}>{ms / 1000}s</option>)}
+              </select>
+            </div>
+          )}
+
+          <div className="bg-blue-50 p-3 rounded-lg flex gap-2 items-start">
+            <AlertCircle className="w-4 h-4 text-blue-600 shrink-0 mt-0.5" />
+            <p className="text-xs text-blue-800">Keys are stored only in this browser and are not included in backups.</p>
+          </div>
+
+          {testState.status !== 'idle' && testState.status !== 'testing' && (
+            <p className={`text-xs ${testState.status === 'ok' ? 'text-green-700' : 'text-red-600'}`}>{testState.message}</p>
+          )}
+        </div>
+        <div className="p-4 pt-0 flex gap-3">
+          <IOSButton variant="secondary" onClick={handleTest} disabled={testState.status === 'testing'} className="flex-1">
+            {testState.status === 'testing' ? <Loader2 className="w-5 h-5 animate-spin" /> : 'Test'}
+          </IOSButton>
+          <IOSButton variant="primary" onClick={handleSave} className="flex-1">Save</IOSButton>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const RateImportModal = ({
+  isOpen,
+  homeCurrency,
+  range,
+  onClose,
+  onImport
+}: {
+  isOpen: boolean;
+  homeCurrency: string;
+  // yyyy-MM-dd dates filled into the endpoint
+  range: { start: string; end: string };
+  onClose: () => void;
+  // Resolves once the rates are applied or the failure has been reported
+  onImport: (load: () => Promise<RateQuotes[]>) => Promise<void>;
+}) => {
+  const [endpoint, setEndpoint] = useState(loadRatesEndpoint);
+  const [loading, setLoading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  if (!isOpen) return null;
+
+  const run = async (load: () => Promise<RateQuotes[]>) => {
+    setLoading(true);
+    await onImport(load);
+    setLoading(false);
+    onClose();
+  };
+
+  const handleFetch = () => {
+    saveRatesEndpoint(endpoint.trim());
+    run(() => fetchRateQuotes(endpoint.trim() || loadRatesEndpoint(), { base: homeCurrency, ...range }));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/20 backdrop-blur-sm animate-in fade-in">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-sm overflow-hidden">
+        <div className="p-4 border-b border-slate-100 flex justify-between items-center">
+          <h3 className="font-semibold text-lg">Import Rates</h3>
+          <button onClick={onClose}><X className="w-5 h-5 text-slate-400" /></button>
+        </div>
+        <div className="p-4 space-y-3">
+          <p className="text-sm text-slate-500">
+            Rates are kept per day, and each expense converts at the rate for its date.
+          </p>
+          <IOSButton variant="secondary" onClick={() => fileInputRef.current?.click()} disabled={loading} className="w-full">
+            <Upload className="w-4 h-4" /> Choose ECB File (CSV, XML, JSON)
+          </IOSButton>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.xml,.json,text/csv,text/xml,application/xml,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) run(async () => parseRateFile(await file.text()));
+              e.target.value = '';
+            }}
+          />
+          <div className="space-y-2">
+            <input
+              className="w-full p-3 bg-slate-50 rounded-xl border border-slate-200 text-xs font-mono focus:outline-blue-500"
+              placeholder="https://…/{start}..{end}?base={base}"
+              value={endpoint}
+              onChange={(e) => setEndpoint(e.target.value)}
+            />
+            <p className="text-xs text-slate-500">{'{base}'} is the home currency, {'{start}'} and {'{end}'} the trip's dates.</p>
+          </div>
+        </div>
+        <div className="p-4 pt-0">
+          <IOSButton variant="primary" onClick={handleFetch} disabled={loading} className="w-full">
+            {loading ? <Loader2 className="w-5 h-5 animate-spin" /> : <><Download className="w-4 h-4" /> Fetch Rates</>}
+          </IOSButton>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const BudgetModal = ({
+  isOpen,
+  budget,
+  homeCurrency,
+  onClose,
+  onSave
+}: {
+  isOpen: boolean;
+  budget?: Budget;
+  homeCurrency: string;
+  onClose: () => void;
+  onSave: (budget?: Budget) => void;
+}) => {
+  const [edits, setEdits] = useState<Budget>({});
+
+  if (!isOpen) return null;
+
+  const item: Budget = { ...budget, ...edits, byType: { ...budget?.byType, ...edits.byType } };
+  const toLimit = (value: string) => parseFloat(value) > 0 ? parseFloat(value) : undefined;
+
+  const handleClose = (save: boolean) => {
+    if (save) onSave(hasBudget(item) ? item : undefined); else onClose();
+    setEdits({});
+  };
+
+  const limitInput = (label: string, value: number | undefined, onChange: (limit?: number) => void) => (
+    <IOSInput
+      label={label}
+      type="number"
+      step="1"
+      placeholder="No limit"
+      value={value ?? ''}
+      onChange={(e: React.ChangeEvent<HTMLInputElement>) => onChange(toLimit(e.target.value))}
+      rightElement={<span className="text-[15px] text-[#8E8E93] ml-2">{homeCurrency}</span>}
+    />
+  );
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/20 backdrop-blur-sm animate-in fade-in">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-sm overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-4 border-b border-slate-100 flex justify-between items-center">
+          <h3 className="font-semibold text-lg">Budget</h3>
+          <button onClick={() => handleClose(false)}><X className="w-5 h-5 text-slate-400" /></button>
+        </div>
+        <div className="p-4 space-y-3 overflow-y-auto">
+          <div className="rounded-xl overflow-hidden border border-[#E5E5EA]">
+            {limitInput('Whole trip', item.total, total => setEdits({ ...edits, total }))}
+            {limitInput('Each day', item.perDay, perDay => setEdits({ ...edits, perDay }))}
+          </div>
+          <div className="pl-4 text-[13px] text-[#8E8E93] uppercase">By Category</div>
+          <div className="rounded-xl overflow-hidden border border-[#E5E5EA]">
+            {EVENT_TYPES.map(type => (
+              <React.Fragment key={type}>
+                {limitInput(CATEGORY_LABELS[type], item.byType?.[type], limit => setEdits({ ...edits, byType: { ...edits.byType, [type]: limit } }))}
+              </React.Fragment>
+            ))}
+          </div>
+          <p className="text-xs text-slate-500">
+            Limits are in {homeCurrency} and count what was actually paid, or the plan until then. Leave one empty to not check it.
+          </p>
+        </div>
+        <div className="p-4 pt-0">
+          <IOSButton variant="primary" onClick={() => handleClose(true)} className="w-full">Save</IOSButton>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Who paid a shared cost and everyone's part of it, in the cost's own currency
+const SplitEditor = ({ split, travelers, amount, currency, onChange }: {
+  split?: CostSplit;
+  travelers: string[];
+  amount: number;
+  currency: string;
+  onChange: (split?: CostSplit) => void;
+}) => {
+  if (!split && travelers.length < 2) {
+    return <p className="px-4 text-[12px] text-[#8E8E93]">Add the people you travel with under Trips to split costs.</p>;
+  }
+
+  // Names since taken off the trip stay listed so an older split can still be corrected
+  const names = [...new Set([...travelers, ...(split ? [split.paidBy, ...Object.keys(split.shares)] : [])])];
+  const parts = split ? getSplitAmounts(split, amount) : {};
+  const unassigned = split?.mode === 'exact' ? getUnassigned(split, amount) : 0;
+
+  const setShare = (name: string, share: number) => {
+    if (!split) return;
+    const shares = { ...split.shares };
+    if (share > 0) shares[name] = share; else delete shares[name];
+    onChange({ ...split, shares });
+  };
+
+  // Keeps who's sharing; exact amounts start out even
+  const setMode = (mode: SplitMode) => {
+    if (!split || mode === split.mode) return;
+    const sharing = Object.keys(split.shares);
+    const each = mode === 'exact' ? Math.round(amount / Math.max(sharing.length, 1) * 100) / 100 : 1;
+    onChange({ ...split, mode, shares: Object.fromEntries(sharing.map(name => [name, each])) });
+  };
+
+  return (
+    <>
+      <div className="bg-white rounded-xl overflow-hidden border border-[#E5E5EA]">
+        <div className="bg-white px-4 py-3 flex items-center justify-between border-b border-[#E5E5EA] last:border-0">
+          <label className="text-[15px] font-medium text-black w-1/3 shrink-0">Paid by</label>
+          <select
+            className="w-full text-right text-[15px] text-[#8E8E93] focus:text-black outline-none bg-transparent"
+            value={split?.paidBy || ''}
+            onChange={(e) => onChange(!e.target.value ? undefined : split ? { ...split, paidBy: e.target.value } : createSplit(travelers, e.target.value))}
+          >
+            <option value="">Not shared</option>
+            {names.map(name => <option key={name} value={name}>{name}</option>)}
+          </select>
+        </div>
+        {split && (
+          <>
+            <div className="p-3 bg-white border-b border-[#E5E5EA]">
+              <IOSSegmentedControl
+                options={[
+                  {label: 'Equal', value: 'equal'},
+                  {label: 'Shares', value: 'shares'},
+                  {label: 'Exact', value: 'exact'}
+                ]}
+                selected={split.mode}
+                onChange={setMode}
+              />
+            </div>
+            {names.map(name => (
+              <div key={name} className="bg-white px-4 py-2.5 flex items-center justify-between gap-3 border-b border-[#E5E5EA] last:border-0">
+                {split.mode === 'equal' ? (
+                  <button onClick={() => setShare(name, split.shares[name] ? 0 : 1)} className="flex items-center gap-2 text-[15px] text-black">
+                    {split.shares[name]
+                      ? <CheckCircle2 className="w-5 h-5 text-[#007AFF]" />
+                      : <span className="w-5 h-5 rounded-full border-2 border-[#C7C7CC]" />}
+                    {name}
+                  </button>
+                ) : (
+                  <span className="text-[15px] text-black">{name}</span>
+                )}
+                <span className="flex items-center gap-2">
+                  {split.mode !== 'exact' && (
+                    <span className="text-[13px] text-[#8E8E93]">{parts[name] ? formatMoney(parts[name], currency) : '—'}</span>
+                  )}
+                  {split.mode !== 'equal' && (
+                    <input
+                      type="number"
+                      step={split.mode === 'exact' ? '0.01' : '1'}
+                      min="0"
+                      className="w-20 text-right text-[15px] text-[#8E8E93] focus:text-black placeholder:text-[#C7C7CC] outline-none bg-transparent"
+                      placeholder="0"
+                      value={split.shares[name] ?? ''}
+                      onChange={(e) => setShare(name, parseFloat(e.target.value) || 0)}
+                    />
+                  )}
+                  {split.mode === 'exact' && <span className="text-[15px] text-[#8E8E93]">{currency}</span>}
+                </span>
+              </div>
+            ))}
+          </>
+        )}
+      </div>
+      {Math.abs(unassigned) >= 0.005 && (
+        <p className="px-4 text-[12px] text-orange-600 mt-2">
+          {formatMoney(Math.abs(unassigned), currency)} {unassigned > 0 ? 'still to assign' : 'more than the total'}. Until the amounts add up, everyone's part is scaled to fit.
+        </p>
+      )}
+    </>
+  );
+};
+
+// New photo picked (Blob), removed (null) or left as it was (undefined)
+type ReceiptChange = Blob | null | undefined;
+
+const ExpenseModal = ({
+  expense,
+  isNew,
+  events,
+  travelers,
+  onClose,
+  onSave,
+  onDelete,
+  onViewReceipt
+}: {
+  expense: Expense | null;
+  isNew: boolean;
+  events: TravelEvent[];
+  travelers: string[];
+  onClose: () => void;
+  onSave: (expense: Expense, receipt: ReceiptChange) => void;
+  onDelete: (id: string) => void;
+  onViewReceipt: (expense: Expense) => void;
+}) => {
+  const [edits, setEdits] = useState<Partial<Expense>>({});
+  const [receipt, setReceipt] = useState<ReceiptChange>(undefined);
+  const photoInputRef = useRef<HTMLInputElement>(null);
+
+  const preview = useMemo(() => receipt ? URL.createObjectURL(receipt) : '', [receipt]);
+  useEffect(() => () => {
+    if (preview) URL.revokeObjectURL(preview);
+  }, [preview]);
+
+  if (!expense) return null;
+
+  const item = { ...expense, ...edits };
+  const hasStoredReceipt = receipt === undefined && !!item.receiptId;
+  const canSave = item.amount > 0 && !!item.date && /^[A-Z]{3}$/.test(item.currency);
+
+  const handleClose = (save: boolean) => {
+    if (save) onSave(item, receipt); else onClose();
+    setEdits({});
+    setReceipt(undefined);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/20 backdrop-blur-sm animate-in fade-in">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-sm overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-4 border-b border-slate-100 flex justify-between items-center">
+          <h3 className="font-semibold text-lg">{isNew ? 'Add Expense' : 'Edit Expense'}</h3>
+          <button onClick={() => handleClose(false)}><X className="w-5 h-5 text-slate-400" /></button>
+        </div>
+        <div className="p-4 space-y-3 overflow-y-auto">
+          <input
+            className="w-full p-3 bg-slate-50 rounded-xl border border-slate-200 text-sm focus:outline-blue-500"
+            placeholder="Coffee, metro ticket, souvenir…"
+            value={item.title}
+            onChange={(e) => setEdits({ ...edits, title: e.target.value })}
+          />
+          <div className="flex gap-2">
+            <input
+              type="number"
+              step="0.01"
+              className="flex-1 min-w-0 p-3 bg-slate-50 rounded-xl border border-slate-200 text-sm focus:outline-blue-500"
+              placeholder="Amount"
+              value={item.amount || ''}
+              onChange={(e) => setEdits({ ...edits, amount: e.target.value === '' ? 0 : parseFloat(e.target.value) })}
+            />
+            <input
+              type="text"
+              maxLength={3}
+              className="w-20 p-3 bg-slate-50 rounded-xl border border-slate-200 text-sm font-bold text-center uppercase focus:outline-blue-500"
+              placeholder="EUR"
+              value={item.currency}
+              onChange={(e) => setEdits({ ...edits, currency: e.target.value.toUpperCase() })}
+            />
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            {EXPENSE_CATEGORIES.map(category => (
+              <button
+                key={category}
+                onClick={() => setEdits({ ...edits, category })}
+                className={`py-2 rounded-lg text-[13px] font-semibold ${item.category === category ? 'bg-[#007AFF] text-white' : 'bg-slate-100 text-slate-600'}`}
+              >
+                {CATEGORY_LABELS[category]}
+              </button>
+            ))}
+          </div>
+          <input
+            type="date"
+            className="w-full p-3 bg-slate-50 rounded-xl border border-slate-200 text-sm focus:outline-blue-500"
+            value={item.date}
+            onChange={(e) => setEdits({ ...edits, date: e.target.value })}
+          />
+          <select
+            className="w-full p-3 bg-slate-50 rounded-xl border border-slate-200 text-sm focus:outline-blue-500"
+            value={item.eventId || ''}
+            onChange={(e) => setEdits({ ...edits, eventId: e.target.value || undefined })}
+          >
+            <option value="">Not linked to an event</option>
+            {[...events].sort((a, b) => a.startTime.localeCompare(b.startTime)).map(e => (
+              <option key={e.id} value={e.id}>{e.startTime.slice(0, 10)} · {e.title}</option>
+            ))}
+          </select>
+          <IOSSegmentedControl
+            options={[
+              {label: 'Card', value: 'card'},
+              {label: 'Cash', value: 'cash'},
+              {label: 'Prepaid', value: 'prepaid'}
+            ]}
+            selected={item.paymentMethod}
+            onChange={(v: PaymentMethod) => setEdits({ ...edits, paymentMethod: item.paymentMethod === v ? undefined : v })}
+          />
+          <SplitEditor
+            split={item.split}
+            travelers={travelers}
+            amount={item.amount}
+            currency={item.currency}
+            onChange={(split) => setEdits({ ...edits, split })}
+          />
+
+          {preview && <img src={preview} alt="Receipt" className="w-full max-h-48 object-contain rounded-xl bg-slate-100" />}
+          <div className="flex gap-2">
+            {hasStoredReceipt && (
+              <IOSButton variant="secondary" onClick={() => onViewReceipt(item)} className="flex-1 text-sm py-2">
+                <Receipt className="w-4 h-4" /> View Receipt
+              </IOSButton>
+            )}
+            {(hasStoredReceipt || receipt) ? (
+              <IOSButton variant="secondary" onClick={() => setReceipt(null)} className="flex-1 text-sm py-2 text-[#FF3B30]">
+                <Trash2 className="w-4 h-4" /> Remove Photo
+              </IOSButton>
+            ) : (
+              <IOSButton variant="secondary" onClick={() => photoInputRef.current?.click()} className="flex-1 text-sm py-2">
+                <Camera className="w-4 h-4" /> Add Receipt Photo
+              </IOSButton>
+            )}
+            <input
+              ref={photoInputRef}
+              type="file"
+              accept="image/*"
+              capture="environment"
+              className="hidden"
+              onChange={async (e) => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) setReceipt(await shrinkPhoto(file));
+              }}
+            />
+          </div>
+        </div>
+        <div className="p-4 pt-0 flex gap-3">
+          {!isNew && (
+            <IOSButton variant="secondary" onClick={() => onDelete(item.id)} className="text-[#FF3B30]">
+              <Trash2 className="w-4 h-4" />
+            </IOSButton>
+          )}
+          <IOSButton variant="primary" onClick={() => handleClose(true)} disabled={!canSave} className="flex-1">Save</IOSButton>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const CashEntryModal = ({
+  entry,
+  isNew,
+  onClose,
+  onSave,
+  onDelete
+}: {
+  entry: CashEntry | null;
+  isNew: boolean;
+  onClose: () => void;
+  onSave: (entry: CashEntry) => void;
+  onDelete: (id: string) => void;
+}) => {
+  const [edits, setEdits] = useState<Partial<CashEntry>>({});
+  const [isExchange, setIsExchange] = useState<boolean | null>(null);
+
+  if (!entry) return null;
+
+  const item = { ...entry, ...edits };
+  const exchange = isExchange ?? !!entry.fromCurrency;
+  const isCode = (code?: string) => !!code && /^[A-Z]{3}$/.test(code);
+  const canSave = item.amount > 0 && !!item.date && isCode(item.currency)
+    && (!exchange || (!!item.fromAmount && item.fromAmount > 0 && isCode(item.fromCurrency)));
+
+  const handleClose = (save: boolean) => {
+    if (save) {
+      onSave(exchange ? item : { ...item, fromAmount: undefined, fromCurrency: undefined });
+    } else {
+      onClose();
+    }
+    setEdits({});
+    setIsExchange(null);
+  };
+
+  const amountRow = (amount: number | undefined, currency: string | undefined, onChange: (amount: number, currency: string) => void) => (
+    <div className="flex gap-2">
+      <input
+        type="number"
+        step="0.01"
+        className="flex-1 min-w-0 p-3 bg-slate-50 rounded-xl border border-slate-200 text-sm focus:outline-blue-500"
+        placeholder="Amount"
+        value={amount || ''}
+        onChange={(e) => onChange(e.target.value === '' ? 0 : parseFloat(e.target.value), currency || '')}
+      />
+      <input
+        type="text"
+        maxLength={3}
+        className="w-20 p-3 bg-slate-50 rounded-xl border border-slate-200 text-sm font-bold text-center uppercase focus:outline-blue-500"
+        placeholder="EUR"
+        value={currency || ''}
+        onChange={(e) => onChange(amount || 0, e.target.value.toUpperCase())}
+      />
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/20 backdrop-blur-sm animate-in fade-in">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-sm overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-4 border-b border-slate-100 flex justify-between items-center">
+          <h3 className="font-semibold text-lg">{isNew ? 'Log Cash' : 'Edit Cash'}</h3>
+          <button onClick={() => handleClose(false)}><X className="w-5 h-5 text-slate-400" /></button>
+        </div>
+        <div className="p-4 space-y-3 overflow-y-auto">
+          <IOSSegmentedControl
+            options={[
+              {label: 'Withdrawal', value: 'withdrawal'},
+              {label: 'Exchange', value: 'exchange'}
+            ]}
+            selected={exchange ? 'exchange' : 'withdrawal'}
+            onChange={(v: string) => setIsExchange(v === 'exchange')}
+          />
+          <label className="block text-xs font-semibold text-slate-500 uppercase">Cash received</label>
+          {amountRow(item.amount, item.currency, (amount, currency) => setEdits({ ...edits, amount, currency }))}
+          {exchange && (
+            <>
+              <label className="block text-xs font-semibold text-slate-500 uppercase">Cash handed over</label>
+              {amountRow(item.fromAmount, item.fromCurrency, (fromAmount, fromCurrency) => setEdits({ ...edits, fromAmount, fromCurrency }))}
+            </>
+          )}
+          <input
+            type="date"
+            className="w-full p-3 bg-slate-50 rounded-xl border border-slate-200 text-sm focus:outline-blue-500"
+            value={item.date}
+            onChange={(e) => setEdits({ ...edits, date: e.target.value })}
+          />
+          <input
+            className="w-full p-3 bg-slate-50 rounded-xl border border-slate-200 text-sm focus:outline-blue-500"
+            placeholder="Note (ATM at Termini, exchange office…)"
+            value={item.note || ''}
+            onChange={(e) => setEdits({ ...edits, note: e.target.value || undefined })}
+          />
+          <p className="text-xs text-slate-500">
+            {exchange
+              ? 'The cash handed over comes out of what you have in that currency.'
+              : 'Cash from an ATM or brought from home. Any card fees belong in an expense.'}
+          </p>
+        </div>
+        <div className="p-4 pt-0 flex gap-3">
+          {!isNew && (
+            <IOSButton variant="secondary" onClick={() => onDelete(item.id)} className="text-[#FF3B30]">
+              <Trash2 className="w-4 h-4" />
+            </IOSButton>
+          )}
+          <IOSButton variant="primary" onClick={() => handleClose(true)} disabled={!canSave} className="flex-1">Save</IOSButton>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Full-screen photo; tap anywhere to close
+const PhotoViewer = ({ photo, onClose }: { photo: { title: string; blob: Blob } | null; onClose: () => void }) => {
+  const url = useMemo(() => photo ? URL.createObjectURL(photo.blob) : '', [photo]);
+  useEffect(() => () => {
+    if (url) URL.revokeObjectURL(url);
+  }, [url]);
+
+  if (!photo) return null;
+
+  return (
+    <div className="fixed inset-0 z-[70] bg-black flex flex-col animate-in fade-in" onClick={onClose}>
+      <div className="p-4 flex justify-between items-center text-white">
+        <span className="font-semibold">{photo.title}</span>
+        <X className="w-6 h-6" />
+      </div>
+      {url && <img src={url} alt={photo.title} className="flex-1 min-h-0 w-full object-contain" />}
+    </div>
+  );
+};
+
+// Full-screen ticket on white, so scanners at the gate can read it; the screen stays awake while it's open
+const TicketViewer = ({ ticket, onClose }: { ticket: { title: string; blob: Blob } | null; onClose: () => void }) => {
+  const url = useMemo(() => ticket ? URL.createObjectURL(ticket.blob) : '', [ticket]);
+  useEffect(() => () => {
+    if (url) URL.revokeObjectURL(url);
+  }, [url]);
+
+  useEffect(() => {
+    if (!ticket || !('wakeLock' in navigator)) return;
+    let lock: WakeLockSentinel | undefined;
+    let closed = false;
+    navigator.wakeLock.request('screen').then(l => {
+      if (closed) l.release();
+      else lock = l;
+    }).catch(() => {
+      // Not allowed right now (low battery, hidden tab); the ticket still shows
+    });
+    return () => {
+      closed = true;
+      lock?.release();
+    };
+  }, [ticket]);
+
+  if (!ticket) return null;
+
+  return (
+    <div className="fixed inset-0 z-[70] bg-white flex flex-col animate-in fade-in">
+      <div className="p-4 flex justify-between items-center border-b border-[#E5E5EA]">
+        <span className="font-semibold truncate">{ticket.title}</span>
+        <button onClick={onClose}><X className="w-6 h-6 text-[#8E8E93]" /></button>
+      </div>
+      {url && (ticket.blob.type === 'application/pdf'
+        ? <iframe src={url} title={ticket.title} className="flex-1 w-full bg-white" />
+        : <img src={url} alt={ticket.title} className="flex-1 min-h-0 w-full object-contain p-4 brightness-110 contrast-125" />)}
+      <p className="text-center text-[12px] text-[#8E8E93] p-3">Turn the screen brightness all the way up for scanners.</p>
+    </div>
+  );
+};
+
+const CalendarExportModal = ({
+  isOpen,
+  defaultFrom,
+  defaultTo,
+  onClose,
+  onExport
+}: {
+  isOpen: boolean;
+  defaultFrom: string;
+  defaultTo: string;
+  onClose: () => void;
+  onExport: (from: string, to: string) => void;
+}) => {
+  // null = follow the trip's dates
+  const [range, setRange] = useState<{ from: string; to: string } | null>(null);
+
+  if (!isOpen) return null;
+
+  const { from, to } = range || { from: defaultFrom, to: defaultTo };
+
+  const handleClose = () => {
+    setRange(null);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/20 backdrop-blur-sm animate-in fade-in">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-sm overflow-hidden">
+        <div className="p-4 border-b border-slate-100 flex justify-between items-center">
+          <h3 className="font-semibold text-lg">Export to Calendar</h3>
+          <button onClick={handleClose}><X className="w-5 h-5 text-slate-400" /></button>
+        </div>
+        <div className="border-b border-[#E5E5EA]">
+          <IOSInput
+            label="From"
+            type="date"
+            value={from}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setRange({ from: e.target.value, to })}
+          />
+          <IOSInput
+            label="To"
+            type="date"
+            value={to}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setRange({ from, to: e.target.value })}
+          />
+        </div>
+        <p className="px-4 pt-3 text-[12px] text-[#8E8E93]">Leave both dates empty to export the whole itinerary as one .ics file.</p>
+        <div className="p-4">
+          <IOSButton variant="primary" onClick={() => { onExport(from, to); handleClose(); }} className="w-full">
+            <Download className="w-4 h-4" /> Download .ics
+          </IOSButton>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// New Restore Modal
+const RestoreModal = ({ isOpen, onClose, onRestore }: { isOpen: boolean, onClose: () => void, onRestore: (text: string, mode: RestoreMode) => void }) => {
+  const [text, setText] = useState("");
+  const [mode, setMode] = useState<RestoreMode>('replace');
+  const [passphrase, setPassphrase] = useState("");
+  const [decryptError, setDecryptError] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  if (!isOpen) return null;
+
+  const isEncrypted = isEncryptedBackup(text);
+
+  const handleClose = () => {
+    setText("");
+    setPassphrase("");
+    setDecryptError("");
+    onClose();
+  };
+
+  const handleRestore = async () => {
+    if (!text) return;
+    let plaintext = text;
+    if (isEncrypted) {
+      if (!passphrase) return;
+      setLoading(true);
+      try {
+        plaintext = await decryptBackup(text, passphrase);
+      } catch (e) {
+        setDecryptError((e as Error).message);
+        return;
+      } finally {
+        setLoading(false);
+      }
+    }
+    onRestore(plaintext, mode);
+    handleClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/20 backdrop-blur-sm animate-in fade-in">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-sm overflow-hidden">
+        <div className="p-4 border-b border-slate-100 flex justify-between items-center">
+          <h3 className="font-semibold text-lg">Restore Data</h3>
+          <button onClick={handleClose}><X className="w-5 h-5 text-slate-400" /></button>
+        </div>
+        <div className="p-4">
+          <div className="mb-3">
+            <IOSSegmentedControl
+              options={[
+                {label: 'Replace', value: 'replace'},
+                {label: 'Merge', value: 'merge'}
+              ]}
+              selected={mode}
+              onChange={(v: RestoreMode) => setMode(v)}
+            />
+          </div>
+          {mode === 'replace' ? (
+            <div className="bg-orange-50 p-3 rounded-lg mb-3 flex gap-2 items-start">
+              <AlertTriangle className="w-4 h-4 text-orange-600 shrink-0 mt-0.5" />
+              <p className="text-xs text-orange-800">
+                <strong>Warning:</strong> Restoring will <u>replace</u> all events, expenses and exchange rates of the current trip.
+              </p>
+            </div>
+          ) : (
+            <div className="bg-blue-50 p-3 rounded-lg mb-3 flex gap-2 items-start">
+              <AlertCircle className="w-4 h-4 text-blue-600 shrink-0 mt-0.5" />
+              <p className="text-xs text-blue-800">
+                <strong>Merge:</strong> You'll review every added, changed and removed event before anything is applied.
+              </p>
+            </div>
+          )}
+          <p className="text-sm text-slate-500 mb-2">Paste the content of your backup file here:</p>
+          <textarea 
+            className="w-full h-48 p-3 bg-slate-50 rounded-xl border border-slate-200 text-xs font-mono focus:outline-blue-500"
+            placeholder='{"app":"euro-travel-pocket", ...}'
+            value={text}
+            onChange={(e) => { setText(e.target.value); setDecryptError(""); }}
+          />
+          {isEncrypted && (
+            <div className="mt-3">
+              <div className="bg-purple-50 p-3 rounded-lg mb-2 flex gap-2 items-start">
+                <Lock className="w-4 h-4 text-purple-600 shrink-0 mt-0.5" />
+                <p className="text-xs text-purple-800">This backup is encrypted. Enter its passphrase to unlock it.</p>
+              </div>
+              <input
+                type="password"
+                className="w-full p-3 bg-slate-50 rounded-xl border border-slate-200 text-sm focus:outline-blue-500"
+                placeholder="Passphrase"
+                value={passphrase}
+                onChange={(e) => { setPassphrase(e.target.value); setDecryptError(""); }}
+              />
+              {decryptError && <p className="text-xs text-red-600 mt-1">{decryptError}</p>}
+            </div>
+          )}
+        </div>
+        <div className="p-4 pt-0">
+          <IOSButton variant="primary" onClick={handleRestore} disabled={!text || loading || (isEncrypted && !passphrase)} className="w-full">
+            {loading ? <Loader2 className="w-5 h-5 animate-spin" /> : <><Upload className="w-4 h-4" /> {mode === 'replace' ? 'Restore Data' : 'Review Merge'}</>}
+          </IOSButton>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const MERGE_KIND_STYLES: { [kind in MergeEntry['kind']]: { label: string; className: string; options: [string, string] } } = {
+  added: { label: 'New', className: 'bg-green-100 text-green-700', options: ['Skip', 'Add'] },
+  changed: { label: 'Changed', className: 'bg-orange-100 text-orange-700', options: ['Keep Mine', 'Use Backup'] },
+  removed: { label: 'Not in Backup', className: 'bg-red-100 text-red-700', options: ['Keep', 'Remove'] },
+  unchanged: { label: 'Same', className: 'bg-slate-100 text-slate-500', options: ['Keep', 'Keep'] }
+};
+
+const formatMergeValue = (value: unknown) => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (Array.isArray(value)) return value.join(', ') || '—';
+  return String(value);
+};
+
+const MergeReviewModal = ({
+  entries,
+  onCancel,
+  onApply
+}: {
+  entries: MergeEntry[] | null;
+  onCancel: () => void;
+  onApply: (choices: { [key: string]: MergeChoice }) => void;
+}) => {
+  const [choices, setChoices] = useState<{ [key: string]: MergeChoice }>({});
+
+  if (!entries) return null;
+
+  const reviewable = entries.filter(e => e.kind !== 'unchanged');
+  const unchangedCount = entries.length - reviewable.length;
+  const count = (kind: MergeEntry['kind']) => entries.filter(e => e.kind === kind).length;
+
+  const handleClose = (apply: boolean) => {
+    if (apply) onApply(choices); else onCancel();
+    setChoices({});
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/20 backdrop-blur-sm animate-in fade-in">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-sm overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-4 border-b border-slate-100 flex justify-between items-center">
+          <h3 className="font-semibold text-lg">Review Merge</h3>
+          <button onClick={() => handleClose(false)}><X className="w-5 h-5 text-slate-400" /></button>
+        </div>
+        <div className="px-4 py-2 text-[12px] text-[#8E8E93] border-b border-slate-100">
+          {count('added')} new · {count('changed')} changed · {count('removed')} not in backup · {unchangedCount} identical
+        </div>
+
+        <div className="overflow-y-auto flex-1">
+          {reviewable.length === 0 && (
+            <div className="p-6 text-center text-[#8E8E93] text-[15px]">Nothing to merge, the backup matches this trip.</div>
+          )}
+          {reviewable.map(entry => {
+            const event = (entry.incoming || entry.current)!;
+            const style = MERGE_KIND_STYLES[entry.kind];
+            // "current" keeps what is on this device, "incoming" takes the backup's side (or removes)
+            const choice = choices[entry.key] || getDefaultChoice(entry);
+
+            return (
+              <div key={entry.key} className="px-4 py-3 border-b border-[#E5E5EA] last:border-0">
+                <div className="flex items-start justify-between gap-2 mb-2">
+                  <div className="flex flex-col min-w-0">
+                    <span className="text-[15px] font-semibold text-black truncate">{event.title}</span>
+                    <span className="text-[12px] text-[#8E8E93]">
+                      {new Date(event.startTime).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+                    </span>
+                  </div>
+                  <span className={`text-[10px] font-bold px-2 py-0.5 rounded-full shrink-0 ${style.className}`}>{style.label}</span>
+                </div>
+
+                {entry.kind === 'changed' && (
+                  <div className="bg-slate-50 rounded-lg p-2 mb-2 space-y-1">
+                    {entry.changedFields.map(field => (
+                      <div key={field} className="text-[11px] text-slate-600">
+                        <span className="font-semibold uppercase">{field}</span>:{' '}
+                        <span className="line-through text-slate-400">{formatMergeValue(entry.current![field])}</span>{' → '}
+                        <span>{formatMergeValue(entry.incoming![field])}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <IOSSegmentedControl
+                  options={[
+                    {label: style.options[0], value: 'current'},
+                    {label: style.options[1], value: 'incoming'}
+                  ]}
+                  selected={choice}
+                  onChange={(v: MergeChoice) => setChoices({ ...choices, [entry.key]: v })}
+                />
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="p-4 flex gap-3 border-t border-slate-100">
+          <IOSButton variant="secondary" onClick={() => handleClose(false)} className="flex-1">Cancel</IOSButton>
+          <IOSButton variant="primary" onClick={() => handleClose(true)} className="flex-1">Apply Merge</IOSButton>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const ImportSummaryModal = ({ summary, onClose }: { summary: { title: string; report: ImportReport } | null; onClose: () => void }) => {
+  const [copied, setCopied] = useState(false);
+
+  if (!summary) return null;
+  const { report } = summary;
+
+  const copyRejected = async () => {
+    try {
+      await navigator.clipboard.writeText(JSON.stringify(report.rejected.map(r => r.raw), null, 2));
+      setCopied(true);
+    } catch (e) {
+      console.error("Clipboard Error", e);
+    }
+  };
+
+  const handleClose = () => {
+    setCopied(false);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/20 backdrop-blur-sm animate-in fade-in">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-sm overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-4 border-b border-slate-100 flex justify-between items-center">
+          <h3 className="font-semibold text-lg">{summary.title}</h3>
+          <button onClick={handleClose}><X className="w-5 h-5 text-slate-400" /></button>
+        </div>
+
+        <div className="p-4 space-y-3 overflow-y-auto">
+          <div className="flex items-center gap-2 text-[15px] text-black">
+            <CheckCircle2 className="w-5 h-5 text-green-600" />
+            <span><strong>{report.imported}</strong> events imported</span>
+          </div>
+
+          {report.fixed.length > 0 && (
+            <div className="bg-blue-50 p-3 rounded-lg">
+              <div className="text-[11px] font-bold uppercase text-blue-700 mb-1">{report.fixed.length} corrected automatically</div>
+              <ul className="text-[12px] text-blue-900 space-y-1">
+                {report.fixed.map((item, i) => (
+                  <li key={i}><strong>{item.title}</strong>: {item.fixes.join('; ')}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {report.rejected.length > 0 && (
+            <div className="bg-red-50 p-3 rounded-lg">
+              <div className="text-[11px] font-bold uppercase text-red-700 mb-1">{report.rejected.length} skipped</div>
+              <ul className="text-[12px] text-red-900 space-y-1">
+                {report.rejected.map(item => (
+                  <li key={item.index}>
+                    <strong>{item.title}</strong>: {item.errors.map(e => `${e.field} ${e.message}`).join('; ')}
+                  </li>
+                ))}
+              </ul>
+              <button onClick={copyRejected} className="mt-2 text-[12px] font-semibold text-red-700 underline">
+                {copied ? 'Copied!' : 'Copy skipped rows'}
+              </button>
+            </div>
+          )}
+
+          {report.notes.length > 0 && (
+            <div className="bg-orange-50 p-3 rounded-lg">
+              <ul className="text-[12px] text-orange-900 space-y-1">
+                {report.notes.map((note, i) => <li key={i}>{note}</li>)}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 pt-0">
+          <IOSButton variant="primary" onClick={handleClose} className="w-full">OK</IOSButton>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const EMPTY_TRIP_FORM: TripDetails = { name: '', startDate: '', endDate: '', homeCurrency: DEFAULT_HOME_CURRENCY, homeTimeZone: getDeviceTimeZone(), travelers: [] };
+
+const TripsModal = ({
+  isOpen,
+  trips,
+  activeTripId,
+  onClose,
+  onSelect,
+  onSave,
+  onDelete
+}: {
+  isOpen: boolean;
+  trips: Trip[];
+  activeTripId: string;
+  onClose: () => void;
+  onSelect: (id: string) => void;
+  onSave: (id: string | null, details: TripDetails, homeRate?: number) => void;
+  onDelete: (id: string) => void;
+}) => {
+  // null = list mode, '' = new trip, otherwise the id of the trip being edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<TripDetails>(EMPTY_TRIP_FORM);
+  const [travelersText, setTravelersText] = useState("");
+  const [homeRate, setHomeRate] = useState("");
 
   if (!isOpen) return null;
 
-  const handleRestore = () => {
-    if (!text) return;
-    onRestore(text);
+  // A new home currency the trip has no rate for needs one before the rates can be converted
+  const editing = trips.find(t => t.id === editingId);
+  const needsRate = !!editing && !!form.homeCurrency && form.homeCurrency !== editing.homeCurrency && !editing.rates[form.homeCurrency];
+  const rate = parseFloat(homeRate);
+  const canSave = !!form.name.trim() && (!needsRate || rate > 0);
+
+  const startEdit = (trip?: Trip) => {
+    const details = trip ? getTripDetails(trip) : EMPTY_TRIP_FORM;
+    setForm(details);
+    setTravelersText(details.travelers.join(', '));
+    setHomeRate("");
+    setEditingId(trip ? trip.id : '');
+  };
+
+  const handleSave = () => {
+    if (!canSave) return;
+    onSave(editingId || null, {
+      ...form,
+      name: form.name.trim(),
+      homeCurrency: form.homeCurrency || DEFAULT_HOME_CURRENCY,
+      travelers: travelersText.split(',').map(t => t.trim()).filter(Boolean)
+    }, needsRate ? rate : undefined);
+    setEditingId(null);
+  };
+
+  const handleClose = () => {
+    setEditingId(null);
     onClose();
-    setText("");
   };
 
   return (
     <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/20 backdrop-blur-sm animate-in fade-in">
       <div className="bg-white rounded-2xl shadow-2xl w-full max-w-sm overflow-hidden">
         <div className="p-4 border-b border-slate-100 flex justify-between items-center">
-          <h3 className="font-semibold text-lg">Restore Data</h3>
-          <button onClick={onClose}><X className="w-5 h-5 text-slate-400" /></button>
-        </div>
-        <div className="p-4">
-           <div className="bg-orange-50 p-3 rounded-lg mb-3 flex gap-2 items-start">
-             <AlertTriangle className="w-4 h-4 text-orange-600 shrink-0 mt-0.5" />
-             <p className="text-xs text-orange-800">
-               <strong>Warning:</strong> Restoring will <u>replace</u> all your current events and settings.
-             </p>
-          </div>
-          <p className="text-sm text-slate-500 mb-2">Paste the content of your backup file here:</p>
-          <textarea 
-            className="w-full h-48 p-3 bg-slate-50 rounded-xl border border-slate-200 text-xs font-mono focus:outline-blue-500"
-            placeholder='{"app":"euro-travel-pocket", ...}'
-            value={text}
-            onChange={(e) => setText(e.target.value)}
-          />
-        </div>
-        <div className="p-4 pt-0">
-          <IOSButton variant="primary" onClick={handleRestore} disabled={!text} className="w-full">
-            <Upload className="w-4 h-4" /> Restore Data
-          </IOSButton>
+          <h3 className="font-semibold text-lg">{editingId === null ? 'My Trips' : editingId ? 'Edit Trip' : 'New Trip'}</h3>
+          <button onClick={handleClose}><X className="w-5 h-5 text-slate-400" /></button>
         </div>
+
+        {editingId === null ? (
+          <>
+            <div className="max-h-[50vh] overflow-y-auto">
+              {trips.map(trip => {
+                const isActive = trip.id === activeTripId;
+                const total = summarizeExpenses(trip.events, trip.rates, trip.rateHistory, trip.expenses).total;
+                return (
+                  <div key={trip.id} className="flex items-center gap-3 px-4 py-3 border-b border-[#E5E5EA] last:border-0">
+                    <button
+                      onClick={() => { onSelect(trip.id); handleClose(); }}
+                      className="flex-1 flex flex-col items-start text-left"
+                    >
+                      <span className={`text-[15px] font-semibold flex items-center gap-1 ${isActive ? 'text-[#007AFF]' : 'text-black'}`}>
+                        {isActive && <CheckCircle2 className="w-4 h-4" />}
+                        {trip.name}
+                      </span>
+                      <span className="text-[12px] text-[#8E8E93]">
+                        {formatTripDates(trip)} · {trip.events.length} events · {formatMoney(total, trip.homeCurrency, { whole: true })}
+                      </span>
+                    </button>
+                    <button onClick={() => startEdit(trip)} className="p-2 rounded-lg text-[#007AFF] bg-[#F2F2F7] active:bg-[#E5E5EA]">
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    {trips.length > 1 && (
+                      <button onClick={() => onDelete(trip.id)} className="p-2 rounded-lg text-[#FF3B30] bg-[#F2F2F7] active:bg-[#E5E5EA]">
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+            <div className="p-4">
+              <IOSButton variant="primary" onClick={() => startEdit()} className="w-full">
+                <Plus className="w-4 h-4" /> New Trip
+              </IOSButton>
+            </div>
+          </>
+        ) : (
+          <>
+            <div className="bg-white border-b border-[#E5E5EA]">
+              <IOSInput
+                label="Name"
+                placeholder="Lisbon 2026"
+                value={form.name}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setForm({...form, name: e.target.value})}
+              />
+              <IOSInput
+                label="Start"
+                type="date"
+                value={form.startDate}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setForm({...form, startDate: e.target.value})}
+              />
+              <IOSInput
+                label="End"
+                type="date"
+                value={form.endDate}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setForm({...form, endDate: e.target.value})}
+              />
+              <IOSCurrencySelect
+                label="Currency"
+                value={form.homeCurrency || DEFAULT_HOME_CURRENCY}
+                onChange={(currency) => setForm({...form, homeCurrency: currency})}
+              />
+              {needsRate && (
+                <IOSInput
+                  label={`1 ${form.homeCurrency} =`}
+                  type="number"
+                  step="any"
+                  placeholder="Rate needed"
+                  value={homeRate}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setHomeRate(e.target.value)}
+                  rightElement={<span className="text-[15px] text-[#8E8E93] ml-2">{editing.homeCurrency}</span>}
+                />
+              )}
+              <IOSTimeZoneSelect
+                label="Home Zone"
+                value={form.homeTimeZone}
+                placeholder={getDeviceTimeZone()}
+                onChange={(zone) => setForm({...form, homeTimeZone: zone || getDeviceTimeZone()})}
+              />
+              <IOSInput
+                label="Travelers"
+                placeholder="Ana, Ben"
+                value={travelersText}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTravelersText(e.target.value)}
+              />
+            </div>
+            <div className="p-4 flex gap-3">
+              <IOSButton variant="secondary" onClick={() => setEditingId(null)} className="flex-1">Back</IOSButton>
+              <IOSButton variant="primary" onClick={handleSave} disabled={!canSave} className="flex-1">Save</IOSButton>
+            </div>
+            {needsRate && (
+              <p className="px-4 pb-4 -mt-2 text-[12px] text-[#8E8E93]">
+                The trip's rates and budget are converted to {form.homeCurrency} through this rate.
+              </p>
+            )}
+          </>
+        )}
       </div>
     </div>
   );
@@ -375,11 +1905,14 @@ const RestoreModal = ({ isOpen, onClose, onRestore }: { isOpen: boolean, onClose
 
 export default function App() {
   // --- State ---
-  const [events, setEvents] = useState<TravelEvent[]>([]);
-  const [exchangeRates, setExchangeRates] = useState<{ [key: string]: number }>(DEFAULT_RATES);
+  const [trips, setTrips] = useState<Trip[]>([]);
+  const [activeTripId, setActiveTripId] = useState<string>('');
+  const [isTripsOpen, setIsTripsOpen] = useState(false);
   const [view, setView] = useState<'itinerary' | 'add' | 'expenses' | 'suggestions'>('itinerary');
   const [showAllEvents, setShowAllEvents] = useState(true);
+  const [showHomeTime, setShowHomeTime] = useState(false);
   const [collapsedDates, setCollapsedDates] = useState<Set<string>>(new Set());
+  const [showIssues, setShowIssues] = useState(false);
   
   // Suggestion State
   const [suggestionParams, setSuggestionParams] = useState({ 
@@ -391,9 +1924,25 @@ export default function App() {
   const [generatedSuggestions, setGeneratedSuggestions] = useState<Suggestion[]>([]);
   const [isGeneratingSuggestions, setIsGeneratingSuggestions] = useState(false);
 
-  // Gemini States
+  // AI States
   const [isSmartPasteOpen, setIsSmartPasteOpen] = useState(false);
+  const [pasteDrafts, setPasteDrafts] = useState<Partial<TravelEvent>[] | null>(null);
   const [isRestoreOpen, setIsRestoreOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isCalendarExportOpen, setIsCalendarExportOpen] = useState(false);
+  const [isAiSettingsOpen, setIsAiSettingsOpen] = useState(false);
+  const [isRateImportOpen, setIsRateImportOpen] = useState(false);
+  const [isBudgetOpen, setIsBudgetOpen] = useState(false);
+  const [editingExpense, setEditingExpense] = useState<Expense | null>(null);
+  const [editingCash, setEditingCash] = useState<CashEntry | null>(null);
+  const [viewedPhoto, setViewedPhoto] = useState<{ title: string; blob: Blob } | null>(null);
+  const [viewedTicket, setViewedTicket] = useState<{ title: string; blob: Blob } | null>(null);
+  // Files attached in the event form, written to storage only when the event is saved
+  const [pendingFiles, setPendingFiles] = useState<{ [id: string]: Blob }>({});
+  const attachmentInputRef = useRef<HTMLInputElement>(null);
+  const calendarInputRef = useRef<HTMLInputElement>(null);
+  const [pendingMerge, setPendingMerge] = useState<{ entries: MergeEntry[]; kept?: TravelEvent[]; expenses?: Expense[]; rates: { [key: string]: number }; rateHistory?: RateHistory; budget?: Budget; cash?: CashEntry[]; files?: BackupFile[]; report: ImportReport } | null>(null);
+  const [importSummary, setImportSummary] = useState<{ title: string; report: ImportReport } | null>(null);
   const [isEstimatingCost, setIsEstimatingCost] = useState(false);
   const [enhancingEventId, setEnhancingEventId] = useState<string | null>(null);
 
@@ -403,6 +1952,7 @@ export default function App() {
     title: string;
     message: string;
     type: 'alert' | 'confirm';
+    confirmLabel?: string;
     onConfirm?: () => void;
   }>({
     isOpen: false,
@@ -412,43 +1962,186 @@ export default function App() {
   });
 
   // Form State
-  const [formData, setFormData] = useState<Partial<TravelEvent>>({
-    type: 'activity',
-    isCashOnly: false,
-    startTime: toLocalISOString(new Date()),
-    cost: 0,
-    currency: 'EUR'
-  });
+  const [formData, setFormData] = useState<Partial<TravelEvent>>(() => createEmptyForm([]));
+
+  // Storage: loaded once, then only changed records are written back
+  const storageRef = useRef<StorageBackend | null>(null);
+  const persistedTripsRef = useRef<Trip[]>([]);
 
   // Initial Load
   useEffect(() => {
-    const savedEvents = localStorage.getItem('euro_travel_events');
-    const savedRates = localStorage.getItem('euro_travel_rates');
-    
-    if (savedEvents) {
-      try {
-        setEvents(JSON.parse(savedEvents));
-      } catch (e) { console.error("Failed to parse events", e); }
-    }
-    
-    if (savedRates) {
+    let cancelled = false;
+
+    const load = async () => {
+      const { storage, warning } = await openStorage();
+      const warnings = warning ? [warning] : [];
+      let loadedTrips: Trip[] = [];
+      let savedActiveTrip = '';
+
       try {
-        const parsed = JSON.parse(savedRates);
-        setExchangeRates(prev => ({ ...prev, ...parsed }));
-      } catch (e) { console.error("Failed to parse rates", e); }
-    }
+        const result = await storage.load();
+        loadedTrips = result.trips;
+        savedActiveTrip = result.activeTripId;
+        warnings.push(...result.warnings);
+      } catch (e) {
+        console.error("Failed to load trips", e);
+        warnings.push("Your saved trips could not be loaded. Restore a backup to recover them.");
+      }
+      if (cancelled) return;
+
+      storageRef.current = storage;
+      persistedTripsRef.current = loadedTrips;
+      if (loadedTrips.length === 0) loadedTrips = [createTrip()];
+      setTrips(loadedTrips);
+      setActiveTripId(loadedTrips.some(t => t.id === savedActiveTrip) ? savedActiveTrip : loadedTrips[0].id);
+
+      if (warnings.length > 0) {
+        setModalConfig({ isOpen: true, title: "Storage Notice", message: warnings.join(' '), type: 'alert' });
+      }
+    };
+
+    load();
+    return () => { cancelled = true; };
   }, []);
 
-  // Performance Stability: Debounce saving to localStorage
-  // Waits 800ms after last change before writing to disk
+  // Performance Stability: Debounce saving to storage
+  // Waits 800ms after last change, then writes only the records that changed
   useEffect(() => {
+    const storage = storageRef.current;
+    if (!storage || trips.length === 0) return;
     const handler = setTimeout(() => {
-      localStorage.setItem('euro_travel_events', JSON.stringify(events));
-      localStorage.setItem('euro_travel_rates', JSON.stringify(exchangeRates));
+      const prev = persistedTripsRef.current;
+      persistedTripsRef.current = trips;
+      storage.sync(prev, trips, activeTripId).catch(e => {
+        console.error("Failed to save trips", e);
+        // Diff against the last successful write next time
+        persistedTripsRef.current = prev;
+        setModalConfig({
+          isOpen: true,
+          title: "Save Failed",
+          message: e?.name === 'QuotaExceededError'
+            ? "Device storage is full. Remove some photos or old trips, and save a backup."
+            : "Your latest changes could not be saved. Please save a backup.",
+          type: 'alert'
+        });
+      });
     }, 800);
 
     return () => clearTimeout(handler);
-  }, [events, exchangeRates]);
+  }, [trips, activeTripId]);
+
+  // --- Offline ---
+
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [aiQueue, setAiQueue] = useState<QueuedAiAction[]>(loadAiQueue);
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  useEffect(() => {
+    saveAiQueue(aiQueue);
+  }, [aiQueue]);
+
+  // Queued AI actions run one at a time, into whichever trip they were asked from.
+  // Going offline and back mid-request brings the same action round again; it isn't
+  // started twice.
+  const runningAiActionRef = useRef<string | null>(null);
+  const nextAiAction = isOnline ? aiQueue[0] : undefined;
+  useEffect(() => {
+    if (!nextAiAction || runningAiActionRef.current === nextAiAction.id) return;
+    const action = nextAiAction;
+    runningAiActionRef.current = action.id;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    const updateTrip = (updater: (trip: Trip) => Trip) => setTrips(prev => prev.map(t => t.id === action.tripId ? updater(t) : t));
+    const finish = () => setAiQueue(prev => prev.filter(a => a.id !== action.id));
+
+    const run = async () => {
+      try {
+        if (action.kind === 'enhance-event') {
+          const guide = await fetchEventGuide(action);
+          updateTrip(t => ({ ...t, events: t.events.map(e => e.id === action.eventId ? { ...e, ...guide } : e) }));
+        } else {
+          const { cost, currency } = await fetchCostEstimate(action);
+          // Only fills a cost nobody has entered in the meantime
+          const isTarget = (e: Partial<TravelEvent>) => !e.cost
+            && (action.eventId ? e.id === action.eventId : e.title === action.title && e.location === action.location);
+          setFormData(prev => isTarget(prev) ? { ...prev, cost, currency } : prev);
+          updateTrip(t => ({
+            ...t,
+            events: t.events.map(e => isTarget(e) ? { ...e, cost, currency } : e),
+            rates: addMissingRates(t.rates, t.rateHistory, [currency])
+          }));
+        }
+        finish();
+      } catch (e) {
+        // Lost the connection again: it stays first in line
+        if (isOfflineError(e)) return setIsOnline(false);
+        // Still "online" but unreachable: tried again later, each time waiting longer, until it's given up on
+        const attempts = (action.attempts || 0) + 1;
+        if (isNetworkError(e) && attempts < MAX_QUEUE_ATTEMPTS) {
+          retryTimer = setTimeout(() => {
+            setAiQueue(prev => prev.map(a => a.id === action.id ? { ...a, attempts } : a));
+          }, getQueueRetryDelay(action.attempts || 0));
+          return;
+        }
+        console.error("Queued AI action failed", e);
+        finish();
+        const { title, message } = describeAiError(e);
+        setModalConfig({ isOpen: true, title, message, type: 'alert' });
+      } finally {
+        runningAiActionRef.current = null;
+      }
+    };
+    run();
+    // Going offline drops a pending retry; coming back online runs the action straight away
+    return () => clearTimeout(retryTimer);
+  }, [nextAiAction]);
+
+  // --- Active Trip ---
+  // Events and rates belong to the active trip; the setters below keep the
+  // same signature as useState so the rest of the app doesn't need to care.
+
+  const activeTrip = trips.find(t => t.id === activeTripId) || trips[0];
+  const events = activeTrip?.events || [];
+  const expenses = activeTrip?.expenses || [];
+  const homeCurrency = activeTrip?.homeCurrency || DEFAULT_HOME_CURRENCY;
+  const exchangeRates = activeTrip?.rates || getDefaultRates(homeCurrency);
+
+  const updateActiveTrip = useCallback((updater: (trip: Trip) => Trip) => {
+    setTrips(prev => prev.map(t => t.id === activeTrip?.id ? updater(t) : t));
+  }, [activeTrip?.id]);
+
+  const setEvents = useCallback((action: React.SetStateAction<TravelEvent[]>) => {
+    updateActiveTrip(t => ({ ...t, events: typeof action === 'function' ? action(t.events) : action }));
+  }, [updateActiveTrip]);
+
+  const setExpenses = useCallback((action: React.SetStateAction<Expense[]>) => {
+    updateActiveTrip(t => ({ ...t, expenses: typeof action === 'function' ? action(t.expenses) : action }));
+  }, [updateActiveTrip]);
+
+  // Pictures of the trip's places, fetched ahead so they show offline too
+  useEffect(() => {
+    cacheImages((activeTrip?.events || []).map(e => e.imageUrl).filter((url): url is string => !!url));
+  }, [activeTrip?.events]);
+
+  const setExchangeRates = useCallback((action: React.SetStateAction<{ [key: string]: number }>) => {
+    updateActiveTrip(t => ({ ...t, rates: typeof action === 'function' ? action(t.rates) : action }));
+  }, [updateActiveTrip]);
+
+  // Gives currencies new to the trip their latest imported rate, or a placeholder the Wallet flags
+  const ensureRates = useCallback((currencies: string[]) => {
+    updateActiveTrip(t => {
+      const rates = addMissingRates(t.rates, t.rateHistory, currencies);
+      return rates === t.rates ? t : { ...t, rates };
+    });
+  }, [updateActiveTrip]);
 
   // --- Helpers ---
 
@@ -456,89 +2149,253 @@ export default function App() {
     setModalConfig({ isOpen: true, title, message, type: 'alert' });
   }, []);
 
-  const showConfirm = useCallback((title: string, message: string, onConfirm: () => void) => {
-    setModalConfig({ isOpen: true, title, message, type: 'confirm', onConfirm });
+  const showConfirm = useCallback((title: string, message: string, onConfirm: () => void, confirmLabel?: string) => {
+    setModalConfig({ isOpen: true, title, message, type: 'confirm', onConfirm, confirmLabel });
   }, []);
 
   // --- Backup & Restore Logic ---
 
-  const handleExportBackup = () => {
+  const handleExportBackup = async (passphrase?: string, includeFiles?: boolean) => {
+    let files: BackupFile[] | undefined;
+    const storage = storageRef.current;
+    if (includeFiles && storage) {
+      try {
+        const stored = await Promise.all(getFileIds(events, expenses).map(id => storage.getFile(id)));
+        files = await Promise.all(stored.filter((f): f is StoredFile => !!f).map(toBackupFile));
+      } catch (e) {
+        console.error("Reading files failed", e);
+        showAlert("Backup Failed", "Could not read the attached tickets and photos. Try again without them.");
+        return;
+      }
+    }
+
     const backup: BackupData = {
       app: 'euro-travel-pocket',
-      version: 1,
+      version: SCHEMA_VERSION,
       timestamp: new Date().toISOString(),
+      trip: activeTrip && getTripDetails(activeTrip),
       events: events,
-      rates: exchangeRates
+      expenses: expenses,
+      rates: exchangeRates,
+      rateHistory: activeTrip?.rateHistory,
+      budget: activeTrip?.budget,
+      cash: activeTrip?.cash,
+      files
     };
 
-    const dataStr = JSON.stringify(backup, null, 2);
-    // Changed MIME type to text/plain for easier mobile access
-    const blob = new Blob([dataStr], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    
-    // Create temporary link to trigger download
-    const link = document.createElement('a');
-    link.href = url;
-    // Changed extension to .txt to open in standard text editors/browsers
-    link.download = `travel_backup_${new Date().toISOString().slice(0,10)}.txt`;
-    document.body.appendChild(link);
-    link.click();
-    
-    // Cleanup
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+    let dataStr = JSON.stringify(backup, null, 2);
+    if (passphrase) {
+      try {
+        dataStr = await encryptBackup(dataStr, passphrase);
+      } catch (e) {
+        console.error("Encryption failed", e);
+        showAlert("Backup Failed", "Could not encrypt the backup on this device.");
+        return;
+      }
+    }
+    // text/plain and .txt open in standard text editors/browsers, easier on mobile
+    downloadFile(dataStr, `travel_backup_${getTripSlug()}_${new Date().toISOString().slice(0,10)}${passphrase ? '_encrypted' : ''}.txt`, 'text/plain');
     
-    showAlert("Backup Saved", "Your backup file has been downloaded. Keep it safe!");
+    showAlert("Backup Saved", passphrase
+      ? "Your encrypted backup has been downloaded. You'll need the passphrase to restore it."
+      : "Your backup file has been downloaded. Keep it safe!");
   };
 
-  const handleRestoreBackup = (jsonString: string) => {
+  // Tickets attached to events and receipt photos on expenses
+  const getFileIds = (events: TravelEvent[], expenses: Expense[]) => [
+    ...events.flatMap(e => e.attachments?.map(a => a.id) || []),
+    ...expenses.flatMap(x => x.receiptId ? [x.receiptId] : [])
+  ];
+
+  // Only the files something restored points at are written, over any copy already here
+  const restoreFiles = async (files: BackupFile[] | undefined, events: TravelEvent[], expenses: Expense[]) => {
+    const storage = storageRef.current;
+    if (!files?.length || !activeTrip || !storage) return;
+    const wanted = new Set(getFileIds(events, expenses));
     try {
-      let backup: any;
-      try {
-        backup = JSON.parse(jsonString);
-      } catch (jsonError) {
-        // Fallback for JS Object notation (unquoted keys)
-        try {
-          // eslint-disable-next-line no-new-func
-          backup = new Function(`return ${jsonString}`)();
-        } catch {
-          throw jsonError; // Throw original error if fallback fails
-        }
-      }
-      
-      // Robust Validation & Normalization
-      if (!backup || typeof backup !== 'object') {
-         throw new Error("Invalid data format: Not an object");
-      }
+      await Promise.all(files.filter(f => wanted.has(f.id)).map(f => storage.putFile(fromBackupFile(f, activeTrip.id))));
+    } catch (e) {
+      console.error(e);
+      showAlert("Files Not Restored", `${(e as Error).message} The trip was restored without its tickets and photos.`);
+    }
+  };
 
-      // Handle raw array paste (user pasted just the events list)
-      if (Array.isArray(backup)) {
-         backup = { events: backup };
-      }
+  const getTripSlug = () => (activeTrip?.name || 'trip').toLowerCase().replace(/[^a-z0-9]+/g, '_');
 
-      // Validate events array
-      if (!Array.isArray(backup.events)) {
-        throw new Error("Invalid backup: 'events' list missing or incorrect.");
-      }
+  // --- Expense Reports ---
+
+  const getReport = () => getReportRows(events, expenses, exchangeRates, activeTrip?.rateHistory);
+
+  const handleExportCsv = () => {
+    downloadFile(buildCsv(getReport(), homeCurrency), `expenses_${getTripSlug()}.csv`, 'text/csv');
+  };
+
+  const handleExportStatement = () => {
+    const html = buildStatementHtml(getReport(), {
+      tripName: activeTrip?.name || 'Trip',
+      dates: activeTrip ? formatTripDates(activeTrip) : '',
+      homeCurrency
+    });
+    downloadFile(html, `statement_${getTripSlug()}.html`, 'text/html');
+    showAlert("Statement Saved", "Open the downloaded file in your browser to print it or save it as a PDF.");
+  };
+
+  const handleRestoreBackup = (jsonString: string, mode: RestoreMode = 'replace') => {
+    try {
+      const backup = parseBackup(jsonString);
 
-      // (Optional) Check app signature - Log warning instead of failing
-      if (backup.app && backup.app !== 'euro-travel-pocket') {
-         console.warn("Restoring data from potentially different app source.");
+      if (mode === 'merge') {
+        // The backup's rates are against its own home currency
+        const backupCurrency = backup.trip?.homeCurrency || homeCurrency;
+        const rates = convertRates(backup.rates, backupCurrency, homeCurrency) || {};
+        const rateHistory = convertRateHistory(backup.rateHistory, backupCurrency, homeCurrency);
+        // Limits only carry over when there's a rate to convert them with
+        const budget = backupCurrency === homeCurrency ? backup.budget
+          : exchangeRates[backupCurrency] ? convertBudget(backup.budget, 1 / exchangeRates[backupCurrency]) : undefined;
+        // Card rates are in the backup's home currency too; without a rate they're dropped
+        const incomingEvents = backupCurrency === homeCurrency ? backup.events : backup.events.map(e => e.cardRate
+          ? { ...e, cardRate: rates[backupCurrency] ? Number((e.cardRate * rates[backupCurrency]).toPrecision(6)) : undefined }
+          : e);
+        setPendingMerge({ entries: diffEvents(events, incomingEvents), expenses: backup.expenses, cash: backup.cash, files: backup.files, rates, rateHistory, budget, report: backup.report });
+        return;
       }
 
+      // Backups are per trip: restore into the active trip, taking over its details if present
+      if (backup.trip) {
+        const { name, startDate, endDate, homeCurrency, homeTimeZone, travelers } = backup.trip;
+        updateActiveTrip(t => {
+          const details = {
+            ...t,
+            name: name || t.name,
+            startDate: startDate || t.startDate,
+            endDate: endDate || t.endDate,
+            homeTimeZone: homeTimeZone || t.homeTimeZone,
+            travelers: travelers && travelers.length > 0 ? travelers : t.travelers
+          };
+          const currency = homeCurrency || t.homeCurrency;
+          // The backup's own rates can bridge to its currency; failing that, nothing of the
+          // trip's can be converted and its money settings come from the backup alone
+          const rate = t.rates[currency] || (backup.rates[t.homeCurrency] ? 1 / backup.rates[t.homeCurrency] : undefined);
+          return rate
+            ? changeHomeCurrency(details, currency, rate)
+            : { ...details, homeCurrency: currency, rates: { ...backup.rates, [currency]: 1 }, rateHistory: undefined, budget: undefined };
+        });
+      }
       setEvents(backup.events);
-      if (backup.rates) {
+      setExpenses(backup.expenses);
+      restoreFiles(backup.files, backup.events, backup.expenses);
+      // Against the backup's home currency, which the trip has just taken over
+      if (Object.keys(backup.rates).length > 0) {
         setExchangeRates(backup.rates);
       }
-      
-      showAlert("Success", "Data successfully restored!");
+      if (backup.rateHistory) {
+        updateActiveTrip(t => ({ ...t, rateHistory: backup.rateHistory }));
+      }
+      if (backup.budget) {
+        updateActiveTrip(t => ({ ...t, budget: backup.budget }));
+      }
+      if (backup.cash) {
+        updateActiveTrip(t => ({ ...t, cash: backup.cash }));
+      }
+
+      setImportSummary({ title: "Data Restored", report: backup.report });
     } catch (e: any) {
       console.error(e);
       showAlert("Restore Failed", e.message || "Invalid backup file.");
     }
   };
 
-  const sortedEvents = [...events].sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime());
+  const handleApplyMerge = (choices: { [key: string]: MergeChoice }) => {
+    if (!pendingMerge) return;
+    const merged = [...applyMerge(pendingMerge.entries, choices), ...(pendingMerge.kept || [])];
+    setEvents(merged);
+    // Rates on this device win; the backup only fills in currencies we don't have yet
+    // Expenses aren't reviewed one by one: the backup adds the ones this device doesn't have
+    const incomingExpenses = pendingMerge.expenses || [];
+    setExpenses(prev => [...prev, ...incomingExpenses.filter(x => !prev.some(existing => existing.id === x.id))]);
+    restoreFiles(pendingMerge.files, merged, incomingExpenses);
+    setExchangeRates(prev => ({ ...pendingMerge.rates, ...prev }));
+    const incoming = pendingMerge.rateHistory;
+    if (incoming) {
+      updateActiveTrip(t => {
+        const rateHistory = { ...incoming, ...t.rateHistory };
+        Object.keys(incoming).forEach(date => {
+          rateHistory[date] = { ...incoming[date], ...t.rateHistory?.[date] };
+        });
+        return { ...t, rateHistory };
+      });
+    }
+    // Like expenses, cash entries the device doesn't have are added
+    const incomingCash = pendingMerge.cash || [];
+    if (incomingCash.length > 0) {
+      updateActiveTrip(t => {
+        const cash = t.cash || [];
+        const next = [...cash, ...incomingCash.filter(c => !cash.some(existing => existing.id === c.id))];
+        return { ...t, cash: next.sort((a, b) => a.date.localeCompare(b.date)) };
+      });
+    }
+    // A budget set on this device stays
+    if (pendingMerge.budget) {
+      updateActiveTrip(t => ({ ...t, budget: t.budget || pendingMerge.budget }));
+    }
+    setPendingMerge(null);
+    setImportSummary({ title: `Merge Complete: ${merged.length} events`, report: pendingMerge.report });
+  };
+
+  // --- Trip Management ---
+
+  // Rates are converted through the new currency's rate; the trip editor asks for one when there isn't
+  const handleChangeHomeCurrency = (currency: string) => {
+    if (!activeTrip) return;
+    if (currency !== activeTrip.homeCurrency && !activeTrip.rates[currency]) {
+      showAlert("No Exchange Rate", `There's no ${currency} rate to convert the trip's rates with. Switch it from My Trips, where you can enter one.`);
+      return;
+    }
+    updateActiveTrip(t => changeHomeCurrency(t, currency));
+  };
+
+  const handleImportRates = async (load: () => Promise<RateQuotes[]>) => {
+    if (!activeTrip) return;
+    try {
+      const days = await load();
+      const { dates, skipped } = importRateHistory(activeTrip, days);
+      if (dates.length === 0) {
+        showAlert("No Rates Imported", `None of the ${skipped} days quote ${homeCurrency}, so they can't be converted to it.`);
+        return;
+      }
+      updateActiveTrip(t => importRateHistory(t, days).trip);
+      const span = dates.length === 1 ? dates[0] : `${dates[0]} to ${dates[dates.length - 1]}`;
+      showAlert("Rates Imported", `${dates.length} day${dates.length === 1 ? '' : 's'} of rates (${span}).${skipped > 0 ? ` ${skipped} day${skipped === 1 ? '' : 's'} without ${homeCurrency} were skipped.` : ''}`);
+    } catch (e) {
+      showAlert("Import Failed", (e as Error).message);
+    }
+  };
+
+  const handleSaveTrip = (id: string | null, details: TripDetails, homeRate?: number) => {
+    const existing = trips.find(t => t.id === id);
+    if (existing) {
+      setTrips(prev => prev.map(t => t.id === id
+        ? changeHomeCurrency({ ...t, ...details, homeCurrency: t.homeCurrency }, details.homeCurrency, homeRate || t.rates[details.homeCurrency])
+        : t));
+    } else {
+      const trip = createTrip(details);
+      setTrips(prev => [...prev, trip]);
+      setActiveTripId(trip.id);
+    }
+  };
+
+  const handleDeleteTrip = (id: string) => {
+    const trip = trips.find(t => t.id === id);
+    if (!trip || trips.length <= 1) return;
+    showConfirm(`Delete "${trip.name}"?`, "All events of this trip will be removed. This action cannot be undone.", () => {
+      const remaining = trips.filter(t => t.id !== id);
+      setTrips(remaining);
+      if (id === activeTrip?.id) setActiveTripId(remaining[0].id);
+    });
+  };
+
+  // Sorted by the real instant, so a 09:10 Paris departure lands before a 08:30 London arrival
+  const sortedEvents = [...events].sort((a, b) => getEventStart(a).getTime() - getEventStart(b).getTime());
 
   const getDisplayEvents = () => {
     // If showing all, show in chronological order (Ascending)
@@ -547,74 +2404,95 @@ export default function App() {
     }
 
     // Strict "Today" logic - Ascending (Chronological)
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
-    return sortedEvents.filter(e => {
-      const eDate = new Date(e.startTime);
-      eDate.setHours(0, 0, 0, 0);
-      return eDate.getTime() === today.getTime();
-    });
+    // "Today" is judged in each event's own zone, i.e. the date on the wall where it happens
+    const now = new Date();
+    return sortedEvents.filter(e => e.startTime.slice(0, 10) === getDateInZone(now, e.timeZone));
   };
 
   const displayedEvents = getDisplayEvents();
   const isFiltered = !showAllEvents;
 
-  const getExpenseSummary = (): ExpenseSummary => {
-    let totalHkd = 0;
-    const details: { [key: string]: number } = {};
+  // Checked over the whole trip even when only today is shown, so clashes with yesterday still count
+  const scheduleIssues = checkSchedule(sortedEvents, { startDate: activeTrip?.startDate || '', endDate: activeTrip?.endDate || '' });
+  const issuesByEvent = groupIssuesByEvent(scheduleIssues);
 
-    events.forEach(e => {
-      if (!e.cost) return;
-      const rate = exchangeRates[e.currency] || 1.0;
-      totalHkd += e.cost * rate;
-      details[e.currency] = (details[e.currency] || 0) + e.cost;
-    });
+  const getExpenseSummary = (): ExpenseSummary => summarizeExpenses(events, exchangeRates, activeTrip?.rateHistory, expenses);
 
-    return { totalHkd, details };
+  const addToCalendar = (event: TravelEvent) => {
+    downloadFile(buildCalendar([event], event.title), `${event.title.replace(/\s+/g, '_')}.ics`, 'text/calendar;charset=utf-8');
   };
 
-  const addToCalendar = (event: TravelEvent) => {
-    const formatICSDate = (dateStr: string) => {
-      const d = new Date(dateStr);
-      return d.toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
-    };
-    const start = formatICSDate(event.startTime);
-    const end = event.endTime ? formatICSDate(event.endTime) : 
-                formatICSDate(new Date(new Date(event.startTime).getTime() + 60*60*1000).toISOString());
-
-    const icsContent = [
-      'BEGIN:VCALENDAR',
-      'VERSION:2.0',
-      'BEGIN:VEVENT',
-      `DTSTART:${start}`,
-      `DTEND:${end}`,
-      `SUMMARY:${event.title}`,
-      `LOCATION:${event.location}`,
-      `DESCRIPTION:${event.notes || ''} \n\nGenerated by EuroTravel Pocket`,
-      'END:VEVENT',
-      'END:VCALENDAR'
-    ].join('\n');
-
-    const blob = new Blob([icsContent], { type: 'text/calendar;charset=utf-8' });
-    const url = window.URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.setAttribute('download', `${event.title.replace(/\s+/g, '_')}.ics`);
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-  };
-
-  // --- Gemini & Image Functions ---
+  const handleExportCalendar = (from: string, to: string) => {
+    const selected = filterEventsByDate(sortedEvents, from, to);
+    if (selected.length === 0) return showAlert("Nothing to Export", "There are no events in that date range.");
+    const name = activeTrip?.name || 'Itinerary';
+    downloadFile(buildCalendar(selected, name), `${name.replace(/\s+/g, '_')}.ics`, 'text/calendar;charset=utf-8');
+  };
+
+  const handleImportCalendar = async (file: File) => {
+    try {
+      const { events: rawEvents, skipped } = parseCalendar(await file.text());
+      const { events: imported, report } = validateEventList(rawEvents);
+      if (skipped > 0) report.notes.push(`${skipped} calendar entries without a start time were skipped.`);
+      if (imported.length === 0) return showAlert("Import Failed", "No events found in this calendar file.");
+
+      // Same review as a merge, minus "not in backup": those events stay
+      const { entries, kept } = diffCalendarEvents(events, imported);
+      setPendingMerge({ entries, kept, rates: {}, report });
+    } catch (e) {
+      console.error(e);
+      showAlert("Import Failed", (e as Error).message || "Could not read the calendar file.");
+    }
+  };
+
+  // --- AI & Image Functions ---
+
+  const queueAiAction = (action: Omit<QueuedAiAction, 'id' | 'tripId'>) => {
+    if (!activeTrip) return;
+    setAiQueue(prev => [...prev, { ...action, id: crypto.randomUUID(), tripId: activeTrip.id }]);
+    showAlert("Saved for Later", "You're offline. This will run by itself once you're back online.");
+  };
+
+  const handleClearAiQueue = () => {
+    showConfirm("Clear Saved Requests?", `${aiQueue.length} AI ${aiQueue.length === 1 ? 'request' : 'requests'} waiting to run will be dropped.`, () => setAiQueue([]), "Clear");
+  };
+
+  const showAiError = (error: unknown) => {
+    const { title, message } = describeAiError(error);
+    showAlert(title, message);
+  };
+
+  const fillFromPaste = (fields: Partial<TravelEvent>) => {
+    const currency = fields.currency;
+    setFormData(prev => ({
+      ...prev,
+      ...fields,
+      currency: currency || prev.currency,
+      isCashOnly: false
+    }));
+
+    // If a new currency is found, ensure it's in the rates map
+    if (currency) ensureRates([currency]);
+  };
+
+  // One event fills the form as before; several go to the review screen
+  const showPasteResults = (drafts: Partial<TravelEvent>[]) => {
+    if (drafts.length === 1) fillFromPaste(drafts[0]);
+    else setPasteDrafts(drafts);
+  };
 
   const handleSmartPaste = async (text: string) => {
+    // Known booking emails are read offline; the AI only sees what the rules can't place
+    const drafts = parseBookingText(text);
+    if (drafts.length > 0 && drafts.every(isCompleteDraft)) return showPasteResults(drafts.map(d => d.event));
+
     const prompt = `
-      Extract travel event details from text into JSON.
+      Extract every travel event in the text into a JSON array, one object per event
+      (e.g. outbound and return flights are two events; a hotel stay is one).
       Text: "${text}"
       
       Required JSON format:
-      {
+      [{
         "title": "string",
         "location": "string",
         "startTime": "ISO datetime yyyy-MM-ddThh:mm (guess year ${new Date().getFullYear()})",
@@ -625,93 +2503,71 @@ export default function App() {
         "seatInfo": "string (optional)",
         "platform": "string (optional)",
         "transportMode": "train|bus|flight (optional)"
-      }
+      }]
       Return ONLY raw JSON.
     `;
     
-    const result = await callGemini(prompt);
     try {
-      const parsed = parseGeminiResponse(result);
-      
-      setFormData(prev => ({
-        ...prev,
-        ...parsed,
-        startTime: parsed.startTime && !isNaN(Date.parse(parsed.startTime)) ? parsed.startTime : prev.startTime,
-        currency: parsed.currency || prev.currency,
-        isCashOnly: false
-      }));
-
-      // If a new currency is found, ensure it's in the rates map
-      if (parsed.currency && !exchangeRates[parsed.currency]) {
-         setExchangeRates(prev => ({ ...prev, [parsed.currency]: 1.0 }));
-      }
-
+      showPasteResults(await generateStructured(prompt, smartPasteSchema));
     } catch (e) {
       console.error(e);
-      showAlert("Error", "Could not understand the text. Please try again.");
+      if (drafts.length === 0) return showAiError(e);
+      // Better than nothing when offline: keep what the rules did find
+      showPasteResults(drafts.map(d => d.event));
+      showAlert("Partly Filled", `This looks like a ${drafts[0].source} email, but not everything could be read and the AI isn't available (${describeAiError(e).title}). Please check the ${drafts.length > 1 ? 'events' : 'form'}.`);
     }
   };
 
+  const handleAddPasted = (drafts: Partial<TravelEvent>[]) => {
+    const defaults = createEmptyForm(events);
+    const added = drafts.map(draft => ({ ...toEventData({ ...defaults, ...draft }), id: crypto.randomUUID() }));
+    setEvents([...events, ...added]);
+
+    ensureRates(added.map(e => e.currency));
+
+    setPasteDrafts(null);
+    setFormData(createEmptyForm([...events, ...added]));
+    setView('itinerary');
+  };
+
   const estimateCost = async () => {
     if (!formData.title && !formData.location) return showAlert("Missing Info", "Please enter a Title or Location first.");
     setIsEstimatingCost(true);
-    const prompt = `Estimate cost for 1 person: "${formData.title}" at "${formData.location}". 
-    Return JSON: { "cost": number, "currency": "ISO code (e.g. EUR, GBP, JPY)" }. 
-    If free return 0 cost. Guess the local currency based on location.`;
     
     try {
-      const result = await callGemini(prompt);
-      const parsed = parseGeminiResponse(result);
+      const parsed = await fetchCostEstimate(formData);
       
-      if (typeof parsed.cost === 'number') {
-        setFormData(prev => ({ 
-          ...prev, 
-          cost: parsed.cost, 
-          currency: parsed.currency || prev.currency 
-        }));
-        
-        if (parsed.currency && !exchangeRates[parsed.currency]) {
-          setExchangeRates(prev => ({ ...prev, [parsed.currency]: 1.0 }));
-        }
-      }
+      setFormData(prev => ({ 
+        ...prev, 
+        cost: parsed.cost, 
+        currency: parsed.currency 
+      }));
+      
+      ensureRates([parsed.currency]);
     } catch(e) {
       console.error(e);
-      showAlert("Error", "Could not estimate cost.");
+      if (isOfflineError(e)) {
+        queueAiAction({ kind: 'estimate-cost', eventId: formData.id, title: formData.title || '', location: formData.location || '' });
+      } else {
+        showAiError(e);
+      }
     }
     setIsEstimatingCost(false);
   };
 
   const enhanceEvent = async (event: TravelEvent) => {
     setEnhancingEventId(event.id);
-    const prompt = `
-      Analyze location: "${event.location}" and title: "${event.title}".
-      Return JSON:
-      {
-        "mustDo": ["short phrase 1", "short phrase 2"],
-        "warnings": ["short warning 1"],
-        "wikiSearchTerm": "Wikipedia exact title for image search"
-      }
-    `;
 
     try {
-      const gResult = await callGemini(prompt);
-      const info = parseGeminiResponse(gResult);
-      const imageUrl = await fetchWikiImage(info.wikiSearchTerm || event.title);
-
-      setEvents(prev => prev.map(e => {
-        if (e.id === event.id) {
-          return {
-            ...e,
-            mustDos: info.mustDo,
-            warnings: info.warnings,
-            imageUrl: imageUrl
-          };
-        }
-        return e;
-      }));
+      const guide = await fetchEventGuide(event);
+      setEvents(prev => prev.map(e => e.id === event.id ? { ...e, ...guide } : e));
     } catch (e) {
       console.error("Enhance failed", e);
-      showAlert("Error", "Couldn't fetch guide details.");
+      if (isOfflineError(e)) {
+        queueAiAction({ kind: 'enhance-event', eventId: event.id, title: event.title, location: event.location });
+      } else {
+        showAiError(e);
+      }
     }
     setEnhancingEventId(null);
   };
@@ -750,12 +2606,11 @@ export default function App() {
     `;
 
     try {
-       const result = await callGemini(prompt);
-       const suggestions: Suggestion[] = parseGeminiResponse(result);
+       const suggestions = await generateStructured(prompt, suggestionsSchema);
        setGeneratedSuggestions(suggestions);
     } catch (e) {
        console.error(e);
-       showAlert("Error", "Failed to generate plan.");
+       showAiError(e);
     }
     setIsGeneratingSuggestions(false);
   };
@@ -781,74 +2636,203 @@ export default function App() {
      setEvents([...events, newEvent]);
      
      // Ensure currency exists
-     if (newEvent.currency && !exchangeRates[newEvent.currency]) {
-        setExchangeRates(prev => ({ ...prev, [newEvent.currency]: 1.0 }));
-     }
+     if (newEvent.currency) ensureRates([newEvent.currency]);
      
      showAlert("Success", `Added "${suggestion.title}"!`);
   };
 
-  // --- Handlers ---
+  // --- Handlers ---
+
+  const handleEditEvent = (event: TravelEvent) => {
+    setFormData({ ...event });
+    setView('add');
+  };
+
+  const handleAddEvent = () => {
+    const legs = formData.type === 'transport' ? formData.legs : undefined;
+    if (legs?.some(l => !l.departureTime || !l.arrivalTime)) {
+      showAlert("Missing Info", "Every leg needs a departure and arrival time.");
+      return;
+    }
+    const form = applyJourney({ ...formData, legs });
+    if (!form.title || !form.startTime) {
+      showAlert("Missing Info", "Title and Start Time are required.");
+      return;
+    }
+    
+    const eventData = toEventData(form);
+    const currency = eventData.currency;
+    const id = formData.id || crypto.randomUUID();
+    const nextEvents = formData.id
+      ? events.map(e => e.id === id ? { ...e, ...eventData, id } : e)
+      : [...events, { ...eventData, id }];
+
+    const save = async () => {
+      const failed = await saveAttachments(eventData.attachments);
+      setPendingFiles({});
+      setEvents(failed.length === 0 ? nextEvents : nextEvents.map(e => e.id === id
+        ? { ...e, attachments: e.attachments?.filter(a => !failed.includes(a.id)) }
+        : e));
+      ensureRates([currency]);
+      setFormData(createEmptyForm(events));
+      setView('itinerary');
+    };
+
+    const overruns = getNewOverruns(
+      activeTrip?.budget,
+      getExpenseSummary(),
+      summarizeExpenses(nextEvents, exchangeRates, activeTrip?.rateHistory, expenses)
+    );
+    if (overruns.length === 0) return save();
+    showConfirm("Over Budget", `Saving this takes spending over budget. ${overruns.map(describeOverrun).join(' ')}`, save, "Save Anyway");
+  };
+
+  // Writes the form's newly attached files; returns the ids of any that couldn't be kept
+  const saveAttachments = async (attachments: Attachment[] | undefined) => {
+    const storage = storageRef.current;
+    const added = (attachments || []).filter(a => pendingFiles[a.id]);
+    if (!activeTrip || added.length === 0) return [];
+    const failed: string[] = [];
+    let error = '';
+    for (const a of added) {
+      try {
+        if (!storage) throw new Error("Storage isn't ready yet.");
+        await storage.putFile({ id: a.id, tripId: activeTrip.id, name: a.name, blob: pendingFiles[a.id] });
+      } catch (e) {
+        console.error(e);
+        failed.push(a.id);
+        error = (e as Error).message;
+      }
+    }
+    if (failed.length > 0) showAlert("Ticket Not Saved", `${error} The event was saved without ${failed.length === 1 ? 'it' : 'them'}.`);
+    return failed;
+  };
+
+  const handleAttachFiles = async (files: File[]) => {
+    const added: Attachment[] = files.map(file => ({ id: crypto.randomUUID(), name: file.name, type: file.type }));
+    setPendingFiles(prev => ({ ...prev, ...Object.fromEntries(added.map((a, i) => [a.id, files[i]])) }));
+    setFormData(prev => ({ ...prev, attachments: [...(prev.attachments || []), ...added] }));
+
+    // A boarding pass screenshot fills in the flight; the barcode has everything but the times
+    let unscanned = false;
+    for (const file of files) {
+      const codes = await readBarcodes(file);
+      if (!codes) unscanned = true;
+      const pass = codes?.map(parseBoardingPass).find(p => p !== null);
+      if (!pass) continue;
+      setFormData(prev => {
+        const draft = boardingPassToEvent(pass, prev.startTime?.slice(11, 16) || '00:00');
+        const notes = prev.notes?.includes(draft.notes || '') ? prev.notes : [prev.notes, draft.notes].filter(Boolean).join('\n');
+        return { ...prev, ...draft, notes };
+      });
+      showAlert("Boarding Pass Read", `${pass.legs.length > 1 ? 'The flights were' : 'The flight was'} filled in from the barcode. Boarding passes don't include times, so add the departure and arrival.`);
+      return;
+    }
+    if (unscanned) {
+      showAlert("Barcode Not Read", "Barcodes can't be read in this browser right now, so nothing was filled in. The file is still attached.");
+    }
+  };
+
+  const handleViewAttachment = async (attachment: Attachment) => {
+    let blob: Blob | undefined = pendingFiles[attachment.id];
+    try {
+      blob ??= (await storageRef.current?.getFile(attachment.id))?.blob;
+    } catch (e) {
+      console.error(e);
+      showAlert("Ticket Not Opened", `${(e as Error).message} Try again in a moment.`);
+      return;
+    }
+    if (!blob) {
+      showAlert("Ticket Not Found", "The file isn't on this device. Tickets stay on the device they were attached on, unless a backup saved with its files is restored.");
+      return;
+    }
+    setViewedTicket({ title: attachment.name, blob });
+  };
+
+  const describeOverrun = (overrun: BudgetOverrun) => {
+    const label = overrun.scope === 'total' ? 'Trip'
+      : overrun.scope === 'day' ? new Date(`${overrun.key}T00:00`).toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' })
+      : CATEGORY_LABELS[overrun.key as EventType];
+    return `${label}: ${formatMoney(overrun.spent, homeCurrency, { whole: true })} of ${formatMoney(overrun.limit, homeCurrency, { whole: true })}.`;
+  };
+
+  const deleteEvent = (id: string) => {
+    showConfirm("Delete Event?", "This action cannot be undone.", () => {
+      setEvents(prev => prev.filter(e => e.id !== id));
+      // Expenses linked to it stay, just unlinked
+      setExpenses(prev => prev.map(x => x.eventId === id ? { ...x, eventId: undefined } : x));
+    });
+  };
+
+  // --- Quick Expenses ---
 
-  const handleEditEvent = (event: TravelEvent) => {
-    setFormData({ ...event });
-    setView('add');
+  const handleNewExpense = () => {
+    if (!activeTrip) return;
+    // The currency last used is the likeliest for the next coffee
+    setEditingExpense(createExpense(activeTrip, expenses[expenses.length - 1]?.currency));
   };
 
-  const handleAddEvent = () => {
-    if (!formData.title || !formData.startTime) {
-      showAlert("Missing Info", "Title and Start Time are required.");
-      return;
+  const handleSaveExpense = async (expense: Expense, receipt: Blob | null | undefined) => {
+    setEditingExpense(null);
+    let saved = receipt === null ? { ...expense, receiptId: undefined } : expense;
+    if (receipt && activeTrip && storageRef.current) {
+      const id = crypto.randomUUID();
+      try {
+        await storageRef.current.putFile({ id, tripId: activeTrip.id, name: `${expense.title || 'Receipt'}.jpg`, blob: receipt });
+        saved = { ...expense, receiptId: id };
+      } catch (e) {
+        console.error(e);
+        showAlert("Photo Not Saved", `${(e as Error).message} The expense was saved without it.`);
+      }
     }
-    
-    const currency = formData.currency?.toUpperCase() || 'EUR';
-    
-    const eventData = {
-      title: formData.title || 'Untitled',
-      location: formData.location || '',
-      startTime: formData.startTime || '',
-      endTime: formData.endTime || '',
-      type: formData.type as EventType,
-      notes: formData.notes || '',
-      isCashOnly: formData.isCashOnly || false,
-      cost: Number(formData.cost) || 0,
-      currency: currency,
-      seatInfo: formData.seatInfo,
-      platform: formData.platform,
-      transferInfo: formData.transferInfo,
-      ticketFileRef: formData.ticketFileRef,
-      transportMode: formData.transportMode as any,
-      imageUrl: formData.imageUrl,
-      mustDos: formData.mustDos,
-      warnings: formData.warnings,
-    };
+    setExpenses(prev => prev.some(x => x.id === saved.id) ? prev.map(x => x.id === saved.id ? saved : x) : [...prev, saved]);
+    ensureRates([saved.currency]);
+  };
 
-    if (formData.id) {
-       setEvents(events.map(e => e.id === formData.id ? { ...e, ...eventData, id: formData.id } : e));
-    } else {
-       setEvents([...events, { ...eventData, id: crypto.randomUUID() }]);
-    }
-    
-    if (!exchangeRates[currency]) {
-       setExchangeRates(prev => ({ ...prev, [currency]: 1.0 }));
-    }
+  const handleDeleteExpense = (id: string) => {
+    showConfirm("Delete Expense?", "This action cannot be undone.", () => {
+      setExpenses(prev => prev.filter(x => x.id !== id));
+      setEditingExpense(null);
+    });
+  };
 
-    setFormData({
-      type: 'activity',
-      isCashOnly: false,
-      startTime: toLocalISOString(new Date()),
-      cost: 0,
-      currency: 'EUR'
+  // --- Cash on Hand ---
+
+  const cashEntries = activeTrip?.cash || [];
+
+  const handleSaveCash = (entry: CashEntry) => {
+    setEditingCash(null);
+    updateActiveTrip(t => {
+      const cash = t.cash || [];
+      const next = cash.some(c => c.id === entry.id) ? cash.map(c => c.id === entry.id ? entry : c) : [...cash, entry];
+      return { ...t, cash: next.sort((a, b) => a.date.localeCompare(b.date)) };
     });
-    setView('itinerary');
+    ensureRates([entry.currency, ...(entry.fromCurrency ? [entry.fromCurrency] : [])]);
   };
 
-  const deleteEvent = (id: string) => {
-    showConfirm("Delete Event?", "This action cannot be undone.", () => {
-      setEvents(prev => prev.filter(e => e.id !== id));
+  const handleDeleteCash = (id: string) => {
+    showConfirm("Delete Entry?", "This action cannot be undone.", () => {
+      updateActiveTrip(t => ({ ...t, cash: (t.cash || []).filter(c => c.id !== id) }));
+      setEditingCash(null);
     });
   };
 
+  const handleViewReceipt = async (expense: Expense) => {
+    let file: StoredFile | undefined;
+    try {
+      file = expense.receiptId ? await storageRef.current?.getFile(expense.receiptId) : undefined;
+    } catch (e) {
+      console.error(e);
+      showAlert("Receipt Not Opened", `${(e as Error).message} Try again in a moment.`);
+      return;
+    }
+    if (!file) {
+      showAlert("Receipt Not Found", "The photo isn't on this device. Receipt photos stay on the device they were taken on, unless a backup saved with its files is restored.");
+      return;
+    }
+    setViewedPhoto({ title: expense.title || 'Receipt', blob: file.blob });
+  };
+
   const toggleDateCollapse = (dateKey: string) => {
     const newSet = new Set(collapsedDates);
     if (newSet.has(dateKey)) {
@@ -862,14 +2846,108 @@ export default function App() {
   // --- Views ---
 
   // Converted to Render Functions to prevent unmounting/keyboard focus loss issues
+  const homeTimeZone = activeTrip?.homeTimeZone || getDeviceTimeZone();
+
+  // Times are shown on the wall clock where the event happens, or all in home time
+  const getEventTimeLabel = (event: TravelEvent) => {
+    const start = getEventStart(event);
+    const end = getEventEnd(event);
+    const startZone = showHomeTime ? homeTimeZone : event.timeZone;
+    const endZone = showHomeTime ? homeTimeZone : getEventEndZone(event);
+    // Zone labels only matter once a zone is set, or always in home mode
+    const showZones = showHomeTime || !!event.timeZone;
+    const startLabel = `${formatTimeInZone(start, startZone)}${showZones ? ` ${getZoneAbbreviation(start, startZone)}` : ''}`;
+
+    if (!end) return { durationStr: startLabel, travelTime: '' };
+    const endLabel = `${formatTimeInZone(end, endZone)}${showZones ? ` ${getZoneAbbreviation(end, endZone)}` : ''}`;
+    const sameZoneLabel = showZones && getZoneAbbreviation(start, startZone) === getZoneAbbreviation(end, endZone);
+    return {
+      durationStr: sameZoneLabel
+        ? `${formatTimeInZone(start, startZone)} - ${endLabel}`
+        : `${startLabel} - ${endLabel}`,
+      // Real elapsed time, which differs from the wall clocks when crossing zones
+      travelTime: event.type === 'transport' ? formatDuration(end.getTime() - start.getTime()) : ''
+    };
+  };
+
+  const renderJourneyLegs = (legs: TransportLeg[]) => {
+    const connections = getConnections(legs);
+    return (
+      <div className="space-y-1.5 mb-2">
+        {legs.map((leg, i) => {
+          const connection = connections.find(c => c.index === i - 1);
+          const zone = (timeZone?: string) => showHomeTime ? homeTimeZone : timeZone;
+          const arrivalZone = leg.arrivalTimeZone || leg.departureTimeZone;
+          return (
+            <React.Fragment key={leg.id}>
+              {connection && <ConnectionRow connection={connection} />}
+              <div className="bg-white px-3 py-2 rounded-lg shadow-sm">
+                <div className="flex items-center justify-between text-[11px] font-bold text-[#8E8E93] uppercase">
+                  <span className="flex items-center gap-1">
+                    {leg.mode === 'flight' ? <Plane className="w-3 h-3"/> : leg.mode === 'bus' ? <Bus className="w-3 h-3"/> : <Train className="w-3 h-3"/>}
+                    {[leg.carrier, leg.number].filter(Boolean).join(' ') || leg.mode}
+                  </span>
+                  <span className="font-mono normal-case">
+                    {[leg.platform && `Pl. ${leg.platform}`, leg.seat && `Seat ${leg.seat}`].filter(Boolean).join(' · ')}
+                  </span>
+                </div>
+                <div className="text-[13px] text-black">
+                  <span className="font-semibold">{formatTimeInZone(getLegDeparture(leg), zone(leg.departureTimeZone))}</span> {leg.from}
+                  <span className="text-[#8E8E93]"> → </span>
+                  <span className="font-semibold">{formatTimeInZone(getLegArrival(leg), zone(arrivalZone))}</span> {leg.to}
+                </div>
+              </div>
+            </React.Fragment>
+          );
+        })}
+      </div>
+    );
+  };
+
+  const renderTonightBanner = (date: string) => {
+    const stay = getLodgingForNight(events, date);
+    if (!stay) return null;
+    const nights = getStayNights(stay);
+    const place = stay.address || stay.location;
+    return (
+      <button
+        onClick={() => place && window.open(`https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(place)}`, '_blank')}
+        className="w-full mb-3 flex items-center gap-3 text-left bg-indigo-50 border border-indigo-100 rounded-xl px-3 py-2 active:bg-indigo-100"
+      >
+        <BedDouble className="w-5 h-5 text-indigo-600 shrink-0" />
+        <div className="flex-1 min-w-0">
+          <div className="text-[14px] font-semibold text-indigo-900 truncate">Tonight: {stay.title}</div>
+          {place && <div className="text-[12px] text-indigo-700/80 truncate">{place}</div>}
+        </div>
+        <div className="text-right shrink-0">
+          {nights.length > 1 && <div className="text-[11px] font-semibold text-indigo-600">Night {nights.indexOf(date) + 1} of {nights.length}</div>}
+          {stay.confirmationCode && <div className="text-[11px] font-mono text-indigo-900">{stay.confirmationCode}</div>}
+        </div>
+      </button>
+    );
+  };
+
+  const renderIssueBanners = (issues: ScheduleIssue[]) => issues.map((issue, i) => (
+    <div
+      key={i}
+      className={`mb-2 flex items-start gap-2 text-[13px] font-medium px-3 py-1.5 rounded-xl ${
+        issue.severity === 'error' ? 'bg-[#FF3B30]/10 text-[#FF3B30]' : 'bg-orange-50 text-orange-600'
+      }`}
+    >
+      <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+      <span>{issue.message}</span>
+    </div>
+  ));
+
   const renderItineraryView = () => {
     // Group events by date for the collapsible logic
-    const groups: { date: string; events: TravelEvent[] }[] = [];
+    const groups: { date: string; dateKey: string; events: TravelEvent[] }[] = [];
     displayedEvents.forEach(event => {
-        const dateStr = new Date(event.startTime).toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' });
+        const dateKey = getDateInZone(getEventStart(event), showHomeTime ? homeTimeZone : event.timeZone);
+        const dateStr = new Date(`${dateKey}T00:00`).toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' });
         
         if (groups.length === 0 || groups[groups.length - 1].date !== dateStr) {
-            groups.push({ date: dateStr, events: [event] });
+            groups.push({ date: dateStr, dateKey, events: [event] });
         } else {
             groups[groups.length - 1].events.push(event);
         }
@@ -880,6 +2958,12 @@ export default function App() {
         <div className="pt-12 pb-2 px-5 bg-[#F2F2F7]">
           <div className="flex justify-between items-end">
             <div>
+               <button
+                 onClick={() => setIsTripsOpen(true)}
+                 className="text-[13px] font-semibold text-[#8E8E93] uppercase tracking-wide flex items-center gap-1 active:opacity-70"
+               >
+                 {activeTrip?.name || 'My Trip'} <ChevronDown className="w-3.5 h-3.5" />
+               </button>
                <h1 className="text-[34px] font-bold tracking-tight text-black leading-tight">Itinerary</h1>
                {isFiltered && <div className="text-[#007AFF] text-sm font-semibold">Today's Plan</div>}
             </div>
@@ -891,13 +2975,59 @@ export default function App() {
                   {showAllEvents ? <Filter className="w-3 h-3" /> : <List className="w-3 h-3" />}
                   {showAllEvents ? 'Show Today' : 'Show All'}
                </button>
+               <button 
+                 onClick={() => setShowHomeTime(!showHomeTime)}
+                 className={`text-[13px] font-semibold mb-1 flex items-center gap-1 justify-end ${showHomeTime ? 'text-orange-600' : 'text-[#007AFF]'}`}
+                 title={`Home time: ${homeTimeZone}`}
+               >
+                  <Clock className="w-3 h-3" />
+                  {showHomeTime ? 'Home Time' : 'Local Time'}
+               </button>
                <div className="text-[17px] font-bold text-[#8E8E93]">
-                 Total <span className="text-[#007AFF]">HK${getExpenseSummary().totalHkd.toFixed(0)}</span>
+                 Total <span className="text-[#007AFF]">{formatMoney(getExpenseSummary().total, homeCurrency, { whole: true })}</span>
                </div>
             </div>
           </div>
         </div>
   
+        {scheduleIssues.length > 0 && (
+          <div className="px-4 mb-2">
+            <IOSCard>
+              <button
+                onClick={() => setShowIssues(!showIssues)}
+                className="w-full px-4 py-3 flex items-center justify-between active:bg-gray-50"
+              >
+                <span className="flex items-center gap-2 text-[15px] font-semibold text-orange-600">
+                  <AlertTriangle className="w-4 h-4" />
+                  {scheduleIssues.length} Schedule {scheduleIssues.length === 1 ? 'Issue' : 'Issues'}
+                </span>
+                {showIssues ? <ChevronUp className="w-4 h-4 text-[#8E8E93]" /> : <ChevronDown className="w-4 h-4 text-[#8E8E93]" />}
+              </button>
+              {showIssues && (
+                <div className="border-t border-[#E5E5EA]">
+                  {scheduleIssues.map((issue, i) => {
+                    const event = issue.eventId ? events.find(e => e.id === issue.eventId) : undefined;
+                    return (
+                      <button
+                        key={i}
+                        onClick={() => event && handleEditEvent(event)}
+                        disabled={!event}
+                        className="w-full text-left px-4 py-2.5 border-b border-[#E5E5EA] last:border-0 active:bg-gray-50"
+                      >
+                        <div className="text-[11px] font-semibold text-[#8E8E93] uppercase">
+                          {new Date(`${issue.date}T00:00`).toLocaleDateString([], { month: 'short', day: 'numeric' })}
+                          {event && ` · ${event.title}`}
+                        </div>
+                        <div className={`text-[13px] ${issue.severity === 'error' ? 'text-[#FF3B30]' : 'text-orange-600'}`}>{issue.message}</div>
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+            </IOSCard>
+          </div>
+        )}
+
         {displayedEvents.length === 0 && (
           <div className="flex flex-col items-center justify-center h-[50vh] text-[#8E8E93] px-10 text-center">
             <div className="w-16 h-16 bg-white rounded-full flex items-center justify-center mb-4 shadow-sm">
@@ -929,19 +3059,15 @@ export default function App() {
                     {isCollapsed ? <ChevronDown className="w-4 h-4 text-[#8E8E93]" /> : <ChevronUp className="w-4 h-4 text-[#8E8E93]" />}
                  </div>
 
+                 {!isCollapsed && renderTonightBanner(group.dateKey)}
+
                  {/* Events List (Conditionally Rendered) */}
                  {!isCollapsed && (
                     <div className="animate-in fade-in slide-in-from-top-2 duration-200">
                       {group.events.map((event) => {
                         // Find global index for prevEvent logic if needed, 
                         // though simplified routing logic (just current location) is used here.
-                        const dateObj = new Date(event.startTime);
-                        const timeStr = dateObj.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
-                        let durationStr = timeStr;
-                        if (event.endTime) {
-                          const endObj = new Date(event.endTime);
-                          durationStr = `${timeStr} - ${endObj.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
-                        }
+                        const { durationStr, travelTime } = getEventTimeLabel(event);
                         const isEnhancing = enhancingEventId === event.id;
                         
                         // Find previous event globally to support "Route from X"
@@ -959,6 +3085,8 @@ export default function App() {
                               event.type === 'dining' ? 'bg-green-500' : 'bg-[#007AFF]'
                             }`}></div>
             
+                            {renderIssueBanners(issuesByEvent.get(event.id) || [])}
+
                             {prevEvent && (
                               <div className="mb-3">
                                 <button 
@@ -986,7 +3114,10 @@ export default function App() {
                               <div className="p-4">
                                 <div className="flex justify-between items-start mb-1">
                                   <div className="flex flex-col">
-                                    <span className="text-[13px] font-medium text-[#8E8E93]">{durationStr}</span>
+                                    <span className="text-[13px] font-medium text-[#8E8E93]">
+                                      {durationStr}
+                                      {travelTime && <span className="ml-1 text-orange-600">· {travelTime}</span>}
+                                    </span>
                                     <h3 className="text-[17px] font-semibold text-black leading-tight">{event.title}</h3>
                                   </div>
                                   <div className="flex flex-col items-end gap-1">
@@ -1048,14 +3179,31 @@ export default function App() {
                                   )
                                 )}
             
+                                {event.type === 'lodging' && (
+                                  <div className="bg-[#F2F2F7] rounded-xl p-3 mb-3 text-[13px]">
+                                    <div className="flex items-center gap-2 mb-1 text-indigo-600 font-semibold">
+                                      <BedDouble className="w-4 h-4" />
+                                      <span>{getStayNights(event).length} {getStayNights(event).length === 1 ? 'night' : 'nights'}{event.endTime && ` · check-out ${new Date(event.endTime).toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' })}`}</span>
+                                    </div>
+                                    {event.address && <div className="text-slate-700">{event.address}</div>}
+                                    {event.confirmationCode && (
+                                      <div className="text-slate-700">Confirmation <span className="font-mono font-semibold">{event.confirmationCode}</span></div>
+                                    )}
+                                    {event.costPerNight !== undefined && (
+                                      <div className="text-[#8E8E93]">{formatMoney(event.costPerNight, event.currency)} per night</div>
+                                    )}
+                                  </div>
+                                )}
+
                                 {event.type === 'transport' && (
                                   <div className="bg-[#F2F2F7] rounded-xl p-3 mb-3">
                                     <div className="flex items-center gap-2 mb-2 text-orange-600 font-semibold text-[13px]">
                                         {event.transportMode === 'flight' ? <Plane className="w-4 h-4"/> : 
                                         event.transportMode === 'bus' ? <Bus className="w-4 h-4"/> : 
                                         <Train className="w-4 h-4"/>}
-                                        <span>Transport Details</span>
+                                        <span>{event.legs ? describeRoute(event.legs) : 'Transport Details'}</span>
                                     </div>
+                                    {event.legs && renderJourneyLegs(event.legs)}
                                     <div className="grid grid-cols-2 gap-2 mb-2">
                                         {event.seatInfo && (
                                           <div className="bg-white px-2 py-1 rounded-lg text-center shadow-sm">
@@ -1079,9 +3227,24 @@ export default function App() {
                                   </div>
                                 )}
                                 
+                                {event.attachments && (
+                                  <div className="flex flex-wrap gap-2 mb-3">
+                                    {event.attachments.map(a => (
+                                      <button
+                                        key={a.id}
+                                        onClick={() => handleViewAttachment(a)}
+                                        className="flex items-center gap-1.5 max-w-full text-[12px] font-medium text-orange-700 bg-orange-100/50 px-2 py-1.5 rounded-lg"
+                                      >
+                                        <Ticket className="w-3.5 h-3.5 shrink-0" />
+                                        <span className="truncate">{a.name}</span>
+                                      </button>
+                                    ))}
+                                  </div>
+                                )}
+
                                 {event.cost > 0 && (
                                   <div className="flex items-center justify-end gap-1 mb-3 text-[14px] font-medium text-black">
-                                    <span>{event.cost.toFixed(2)}</span>
+                                    <span>{formatAmount(event.cost, event.currency)}</span>
                                     <span className="text-[11px] font-bold bg-slate-100 px-1.5 py-0.5 rounded text-slate-500">{event.currency}</span>
                                   </div>
                                 )}
@@ -1144,7 +3307,7 @@ export default function App() {
     <div className="pb-32 bg-[#F2F2F7] min-h-screen">
        <div className="pt-12 pb-6 px-5">
          <h1 className="text-[34px] font-bold tracking-tight text-black">Guide</h1>
-         <p className="text-[#8E8E93] text-[15px] mt-1">Ask Gemini to plan your day.</p>
+         <p className="text-[#8E8E93] text-[15px] mt-1">Ask the AI assistant to plan your day.</p>
        </div>
 
        <div className="px-4 space-y-6">
@@ -1226,7 +3389,7 @@ export default function App() {
                             </div>
                             <div className="flex items-center justify-between mt-2">
                                 <span className="text-[12px] font-medium text-black">
-                                   {item.cost > 0 ? `${item.cost} ${item.currency || 'EUR'}` : 'Free'}
+                                   {item.cost > 0 ? formatMoney(item.cost, item.currency || 'EUR') : 'Free'}
                                 </span>
                                 <button 
                                   onClick={() => addSuggestionToItinerary(item)}
@@ -1247,6 +3410,12 @@ export default function App() {
     </div>
   );
 
+  const formLegs = formData.legs || [];
+  const hasLegs = formLegs.length > 0;
+  // Recomputed on every edit so a leg that no longer connects is flagged straight away
+  const formConnections = getConnections(formLegs);
+  const setFormLegs = (legs: TransportLeg[]) => setFormData({ ...formData, legs: legs.length > 0 ? legs : undefined });
+
   const renderAddEventView = () => (
     <div className="bg-[#F2F2F7] min-h-full pb-32 pt-6">
       <div className="flex items-center justify-between px-4 mb-6">
@@ -1295,24 +3464,26 @@ export default function App() {
               value={formData.location} 
               onChange={(e: any) => setFormData({...formData, location: e.target.value})} 
             />
-             <div className="bg-white px-4 py-3 flex items-center justify-between border-b border-[#E5E5EA]">
-              <label className="text-[15px] font-medium text-black">Start Time</label>
-              <input 
-                type="datetime-local"
-                className="text-right text-[15px] text-[#8E8E93] bg-transparent outline-none"
-                value={formData.startTime}
-                onChange={e => setFormData({...formData, startTime: e.target.value})}
-              />
-            </div>
-             <div className="bg-white px-4 py-3 flex items-center justify-between border-b border-[#E5E5EA]">
-              <label className="text-[15px] font-medium text-black">End Time</label>
-              <input 
-                type="datetime-local"
-                className="text-right text-[15px] text-[#8E8E93] bg-transparent outline-none"
-                value={formData.endTime || ''}
-                onChange={e => setFormData({...formData, endTime: e.target.value})}
-              />
-            </div>
+            {/* A journey's times come from its legs */}
+            {!hasLegs && (
+              <>
+                <DateTimeRow label={formData.type === 'lodging' ? 'Check-in' : 'Start Time'} value={formData.startTime || ''} onChange={startTime => setFormData({...formData, startTime})} />
+                <IOSTimeZoneSelect
+                  label={formData.type === 'transport' ? 'Departs In' : 'Time Zone'}
+                  value={formData.timeZone}
+                  onChange={(zone) => setFormData({...formData, timeZone: zone || undefined})}
+                />
+                <DateTimeRow label={formData.type === 'lodging' ? 'Check-out' : 'End Time'} value={formData.endTime || ''} onChange={endTime => setFormData({...formData, endTime})} />
+                {formData.type === 'transport' && (
+                  <IOSTimeZoneSelect
+                    label="Arrives In"
+                    value={formData.endTimeZone}
+                    placeholder="Same as departure"
+                    onChange={(zone) => setFormData({...formData, endTimeZone: zone || undefined})}
+                  />
+                )}
+              </>
+            )}
             
             <IOSInput 
               label="Cost" 
@@ -1335,7 +3506,7 @@ export default function App() {
                     onClick={estimateCost} 
                     disabled={isEstimatingCost}
                     className="ml-1 p-1.5 bg-gradient-to-tr from-indigo-500 to-purple-500 rounded-lg text-white shadow-sm disabled:opacity-50"
-                    title="Estimate Cost with Gemini"
+                    title="Estimate Cost with AI"
                   >
                     {isEstimatingCost ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Sparkles className="w-3.5 h-3.5" />}
                   </button>
@@ -1345,7 +3516,38 @@ export default function App() {
           </div>
         </div>
 
-        {formData.type === 'transport' && (
+        {formData.type === 'transport' && hasLegs && (
+          <div className="space-y-2 animate-in slide-in-from-bottom-2 fade-in">
+            <div className="pl-4 text-[13px] text-[#8E8E93] uppercase mb-1">Journey</div>
+            {formLegs.map((leg, i) => {
+              const connection = formConnections.find(c => c.index === i - 1);
+              return (
+                <React.Fragment key={leg.id}>
+                  {connection && <ConnectionRow connection={connection} />}
+                  <LegEditor
+                    leg={leg}
+                    index={i}
+                    onChange={updated => setFormLegs(formLegs.map(l => l.id === leg.id ? updated : l))}
+                    onRemove={() => setFormLegs(formLegs.filter(l => l.id !== leg.id))}
+                  />
+                </React.Fragment>
+              );
+            })}
+            <IOSButton variant="secondary" onClick={() => setFormLegs([...formLegs, createLeg(formLegs[formLegs.length - 1])])} className="w-full text-sm py-2">
+              <Plus className="w-4 h-4" /> Add Leg
+            </IOSButton>
+            <div className="bg-white rounded-xl overflow-hidden border border-[#E5E5EA]">
+              <IOSInput 
+                label="Ticket Ref" 
+                placeholder="Booking Number or Link"
+                value={formData.ticketFileRef} 
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setFormData({...formData, ticketFileRef: e.target.value})} 
+              />
+            </div>
+          </div>
+        )}
+
+        {formData.type === 'transport' && !hasLegs && (
           <div className="space-y-1 animate-in slide-in-from-bottom-2 fade-in">
             <div className="pl-4 text-[13px] text-[#8E8E93] uppercase mb-1">Transport Details</div>
             <div className="bg-white rounded-xl overflow-hidden border border-[#E5E5EA]">
@@ -1374,22 +3576,165 @@ export default function App() {
               />
               <IOSInput 
                 label="Ticket Ref" 
-                placeholder="PDF Link or Number"
+                placeholder="Booking Number or Link"
                 value={formData.ticketFileRef} 
                 onChange={(e: any) => setFormData({...formData, ticketFileRef: e.target.value})} 
               />
             </div>
+            <IOSButton
+              variant="secondary"
+              onClick={() => {
+                const first = legFromEvent(formData);
+                setFormLegs([first, createLeg(first)]);
+              }}
+              className="w-full text-sm py-2 mt-2"
+            >
+              <Plus className="w-4 h-4" /> Add Connection
+            </IOSButton>
+          </div>
+        )}
+
+        {formData.type === 'lodging' && (
+          <div className="space-y-1 animate-in slide-in-from-bottom-2 fade-in">
+            <div className="pl-4 text-[13px] text-[#8E8E93] uppercase mb-1">Stay Details</div>
+            <div className="bg-white rounded-xl overflow-hidden border border-[#E5E5EA]">
+              <IOSInput 
+                label="Address" 
+                placeholder="Street, City"
+                value={formData.address} 
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setFormData({...formData, address: e.target.value || undefined})} 
+              />
+              <IOSInput 
+                label="Confirmation" 
+                placeholder="Booking number"
+                value={formData.confirmationCode} 
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setFormData({...formData, confirmationCode: e.target.value || undefined})} 
+              />
+              <IOSInput 
+                label="Per Night" 
+                type="number"
+                step="0.01"
+                placeholder="Optional"
+                value={formData.costPerNight ?? ''} 
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setFormData({...formData, costPerNight: e.target.value === '' ? undefined : parseFloat(e.target.value)})} 
+                rightElement={<span className="text-[15px] text-[#8E8E93] ml-2">{formData.currency}</span>}
+              />
+              <div className="bg-white px-4 py-3 flex items-center justify-between">
+                <div className="flex flex-col">
+                  <span className="text-[15px] font-medium text-black">Spread Cost Over Nights</span>
+                  <span className="text-[12px] text-[#8E8E93]">Otherwise it all counts on check-in day</span>
+                </div>
+                <IOSSwitch checked={!!formData.spreadCost} onChange={() => setFormData({...formData, spreadCost: !formData.spreadCost || undefined})} />
+              </div>
+            </div>
+            {formData.costPerNight !== undefined && formData.startTime && (
+              <p className="px-4 text-[12px] text-[#8E8E93] mt-2">
+                Cost is set to {formData.costPerNight} × {getStayNights(formData as TravelEvent).length} nights when you save.
+              </p>
+            )}
           </div>
         )}
 
+        <div className="space-y-1">
+          <div className="pl-4 text-[13px] text-[#8E8E93] uppercase mb-1">Payment</div>
+          <div className="bg-white rounded-xl overflow-hidden border border-[#E5E5EA]">
+            <div className="p-3 bg-white border-b border-[#E5E5EA]">
+              <IOSSegmentedControl
+                options={[
+                  {label: 'Unpaid', value: 'unpaid'},
+                  {label: 'Deposit', value: 'deposit'},
+                  {label: 'Paid', value: 'paid'}
+                ]}
+                selected={formData.paymentStatus || 'unpaid'}
+                onChange={(v: PaymentStatus) => setFormData({...formData, paymentStatus: v === 'unpaid' ? undefined : v})}
+              />
+            </div>
+            <IOSInput
+              label="Actual"
+              type="number"
+              step="0.01"
+              placeholder="Same as planned"
+              value={formData.actualCost ?? ''}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setFormData({...formData, actualCost: e.target.value === '' ? undefined : parseFloat(e.target.value)})}
+              rightElement={<span className="text-[15px] text-[#8E8E93] ml-2">{formData.currency}</span>}
+            />
+            <div className="p-3 bg-white border-b border-[#E5E5EA] last:border-0">
+              <IOSSegmentedControl
+                options={[
+                  {label: 'Card', value: 'card'},
+                  {label: 'Cash', value: 'cash'},
+                  {label: 'Prepaid', value: 'prepaid'}
+                ]}
+                selected={formData.paymentMethod}
+                onChange={(v: PaymentMethod) => setFormData({...formData, paymentMethod: formData.paymentMethod === v ? undefined : v})}
+              />
+            </div>
+            {formData.paymentMethod === 'card' && formData.currency !== homeCurrency && (
+              <IOSInput
+                label={`1 ${formData.currency} =`}
+                type="number"
+                step="any"
+                placeholder="Rate on statement"
+                value={formData.cardRate ?? ''}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setFormData({...formData, cardRate: e.target.value === '' ? undefined : parseFloat(e.target.value)})}
+                rightElement={<span className="text-[15px] text-[#8E8E93] ml-2">{homeCurrency}</span>}
+              />
+            )}
+          </div>
+          <p className="px-4 text-[12px] text-[#8E8E93] mt-2">
+            The cost above is the plan. Enter what you actually paid to see the difference in the Wallet.
+          </p>
+        </div>
+
+        <div className="space-y-1">
+          <div className="pl-4 text-[13px] text-[#8E8E93] uppercase mb-1">Tickets & Files</div>
+          <div className="bg-white rounded-xl overflow-hidden border border-[#E5E5EA]">
+            {formData.attachments?.map(a => (
+              <div key={a.id} className="flex items-center gap-3 px-4 py-3 border-b border-[#E5E5EA]">
+                <button onClick={() => handleViewAttachment(a)} className="flex-1 min-w-0 flex items-center gap-2 text-left text-[15px] text-black">
+                  <FileText className="w-4 h-4 text-orange-600 shrink-0" />
+                  <span className="truncate">{a.name}</span>
+                </button>
+                <button onClick={() => setFormData({...formData, attachments: formData.attachments?.filter(x => x.id !== a.id)})}>
+                  <Trash2 className="w-4 h-4 text-[#FF3B30]" />
+                </button>
+              </div>
+            ))}
+            <button onClick={() => attachmentInputRef.current?.click()} className="w-full px-4 py-3 flex items-center gap-2 text-[15px] text-[#007AFF]">
+              <Paperclip className="w-4 h-4" /> Attach PDF or Image
+            </button>
+            <input
+              ref={attachmentInputRef}
+              type="file"
+              accept="application/pdf,image/*"
+              multiple
+              className="hidden"
+              onChange={(e) => {
+                const files = Array.from(e.target.files || []);
+                e.target.value = '';
+                if (files.length > 0) handleAttachFiles(files);
+              }}
+            />
+          </div>
+          <p className="px-4 text-[12px] text-[#8E8E93] mt-2">
+            Files stay on this device and open full screen at the gate, even offline.
+          </p>
+        </div>
+
+        <div className="space-y-1">
+          <div className="pl-4 text-[13px] text-[#8E8E93] uppercase mb-1">Split</div>
+          <SplitEditor
+            split={formData.split}
+            travelers={activeTrip?.travelers || []}
+            amount={formData.actualCost ?? (Number(formData.cost) || 0)}
+            currency={formData.currency || homeCurrency}
+            onChange={(split) => setFormData({...formData, split})}
+          />
+        </div>
+
         <div className="bg-white rounded-xl px-4 py-3 border border-[#E5E5EA] flex items-center justify-between">
           <span className="text-[15px] font-medium text-black">Cash Only?</span>
-          <div 
-             onClick={() => setFormData({...formData, isCashOnly: !formData.isCashOnly})}
-             className={`w-[51px] h-[31px] rounded-full p-[2px] cursor-pointer transition-colors duration-200 ${formData.isCashOnly ? 'bg-[#34C759]' : 'bg-[#E5E5EA]'}`}
-          >
-             <div className={`w-[27px] h-[27px] bg-white rounded-full shadow-sm transition-transform duration-200 ${formData.isCashOnly ? 'translate-x-[20px]' : 'translate-x-0'}`} />
-          </div>
+          <IOSSwitch checked={!!formData.isCashOnly} onChange={() => setFormData({...formData, isCashOnly: !formData.isCashOnly})} />
         </div>
       </div>
     </div>
@@ -1397,12 +3742,28 @@ export default function App() {
 
   const renderExpensesView = () => {
     const summary = getExpenseSummary();
-    const usedCurrencies = Object.keys(summary.details);
+    // The home currency is always 1, so it has no rate to edit
+    const usedCurrencies = Object.keys(summary.details).filter(c => c !== homeCurrency);
+    const placeholders = activeTrip ? usedCurrencies.filter(c => isPlaceholderRate(activeTrip, c)) : [];
+    const historyDates = Object.keys(activeTrip?.rateHistory || {}).sort();
+    const getRate = createRateLookup(exchangeRates, activeTrip?.rateHistory);
+    // Event costs and quick expenses in one list, by date
+    const transactionRows: { date: string; event?: TravelEvent; expense?: Expense }[] = [
+      ...events.filter(e => e.cost > 0 || getActualCost(e) > 0).map(event => ({ date: event.startTime.slice(0, 10), event })),
+      ...expenses.map(expense => ({ date: expense.date, expense }))
+    ].sort((a, b) => a.date.localeCompare(b.date));
+    const budget = activeTrip?.budget;
+    const allowance = activeTrip ? getDailyAllowance(budget, summary, activeTrip, toLocalISOString(new Date()).slice(0, 10)) : null;
+    const cashOnHand = getCashOnHand(cashEntries, events, expenses);
+    const balances = getBalances(summary.byTraveler);
+    const transfers = settleUp(balances);
+    const aiSettings = loadAiSettings();
 
     return (
       <div className="bg-[#F2F2F7] min-h-full pb-32">
         <div className="pt-12 pb-6 px-5">
           <h1 className="text-[34px] font-bold tracking-tight text-black">Wallet</h1>
+          <p className="text-[#8E8E93] text-[15px] mt-1">{activeTrip?.name} · {activeTrip ? formatTripDates(activeTrip) : ''}</p>
         </div>
 
         <div className="px-4 space-y-6">
@@ -1413,19 +3774,207 @@ export default function App() {
              </div>
              <div>
                 <div className="text-[38px] font-bold tracking-tight mb-1">
-                   HK${summary.totalHkd.toFixed(0)}
+                   {formatMoney(summary.total, homeCurrency, { whole: true })}
                 </div>
                 <div className="text-[13px] opacity-60 font-medium">
-                   Base Currency: HKD
+                   Home Currency: {getCurrencyName(homeCurrency)}
                 </div>
+                {Math.round(summary.total - summary.planned) !== 0 && (
+                  <div className="text-[13px] opacity-80 font-medium mt-1">
+                    Planned {formatMoney(summary.planned, homeCurrency, { whole: true })} · <VarianceLabel totals={{ planned: summary.planned, actual: summary.total }} currency={homeCurrency} />
+                  </div>
+                )}
+                {placeholders.length > 0 && (
+                  <div className="mt-3 flex items-center gap-1.5 text-[13px] text-orange-300 font-medium">
+                    <AlertTriangle className="w-4 h-4 shrink-0" />
+                    No rate yet for {placeholders.join(', ')}, counted as 1 {homeCurrency}
+                  </div>
+                )}
+                {budget?.total && (
+                  <div className="mt-4 space-y-1.5">
+                    <BudgetBar spent={summary.total} limit={budget.total} track="bg-white/20" />
+                    <div className="flex justify-between text-[13px] opacity-80 font-medium">
+                      <span>
+                        {summary.total > budget.total
+                          ? `Over by ${formatMoney(summary.total - budget.total, homeCurrency, { whole: true })}`
+                          : `${formatMoney(budget.total - summary.total, homeCurrency, { whole: true })} left`}
+                      </span>
+                      <span>of {formatMoney(budget.total, homeCurrency, { whole: true })}</span>
+                    </div>
+                    {allowance && allowance.remaining > 0 && (
+                      <div className="text-[13px] opacity-60 font-medium">
+                        {formatMoney(allowance.perDay, homeCurrency, { whole: true })} a day for the {allowance.days === 1 ? 'last day' : `${allowance.days} days left`}
+                      </div>
+                    )}
+                  </div>
+                )}
              </div>
           </div>
 
+          <div className="flex gap-3">
+            <IOSButton variant="primary" onClick={handleNewExpense} className="flex-1">
+              <Plus className="w-4 h-4" /> Add Expense
+            </IOSButton>
+            <IOSButton variant="secondary" onClick={() => setIsBudgetOpen(true)} className="flex-1">
+              <Target className="w-4 h-4" /> {hasBudget(budget) ? 'Edit Budget' : 'Set Budget'}
+            </IOSButton>
+          </div>
+
+          {Object.keys(summary.byDate).length > 0 && (
+            <div className="space-y-1">
+              <div className="pl-4 text-[13px] text-[#8E8E93] uppercase mb-1">Daily Spending</div>
+              <div className="bg-white rounded-xl overflow-hidden border border-[#E5E5EA]">
+                {Object.entries(summary.byDate).sort(([a], [b]) => a.localeCompare(b)).map(([date, totals]) => (
+                  <div key={date} className="px-4 py-2.5 border-b border-[#E5E5EA] last:border-0 space-y-1.5">
+                    <div className="flex justify-between items-center">
+                      <span className="text-[15px] text-black">{new Date(`${date}T00:00`).toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' })}</span>
+                      <span className="flex items-baseline gap-2">
+                        <VarianceLabel totals={totals} currency={homeCurrency} />
+                        <span className="text-[15px] font-medium text-black">{formatMoney(totals.actual, homeCurrency, { whole: true })}</span>
+                      </span>
+                    </div>
+                    {budget?.perDay && <BudgetBar spent={totals.actual} limit={budget.perDay} />}
+                  </div>
+                ))}
+              </div>
+              <p className="px-4 text-[12px] text-[#8E8E93] mt-2">
+                Stays marked "spread" count night by night; everything else counts on the day it happens. Differences from the plan show in red when over and green when under.
+                {budget?.perDay && ` Bars show each day against the ${formatMoney(budget.perDay, homeCurrency, { whole: true })} daily limit.`}
+              </p>
+            </div>
+          )}
+
+          {(Object.keys(summary.byCategory).length > 0 || budget?.byType) && (
+            <div className="space-y-1">
+              <div className="pl-4 text-[13px] text-[#8E8E93] uppercase mb-1">By Category</div>
+              <div className="bg-white rounded-xl overflow-hidden border border-[#E5E5EA]">
+                {EXPENSE_CATEGORIES.filter(category => summary.byCategory[category] || budget?.byType?.[category as EventType]).map(category => {
+                  const totals = summary.byCategory[category] || { planned: 0, actual: 0 };
+                  const limit = budget?.byType?.[category as EventType];
+                  return (
+                    <div key={category} className="px-4 py-2.5 border-b border-[#E5E5EA] last:border-0 space-y-1.5">
+                      <div className="flex justify-between items-center">
+                        <span className="text-[15px] text-black">{CATEGORY_LABELS[category]}</span>
+                        <span className="flex items-baseline gap-2">
+                          <VarianceLabel totals={totals} currency={homeCurrency} />
+                          <span className="text-[15px] font-medium text-black">
+                            {formatMoney(totals.actual, homeCurrency, { whole: true })}
+                            {limit && <span className="text-[13px] font-normal text-[#8E8E93]"> of {formatMoney(limit, homeCurrency, { whole: true })}</span>}
+                          </span>
+                        </span>
+                      </div>
+                      {limit && <BudgetBar spent={totals.actual} limit={limit} />}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-1">
+            <div className="pl-4 text-[13px] text-[#8E8E93] uppercase mb-1">Cash on Hand</div>
+            <div className="bg-white rounded-xl overflow-hidden border border-[#E5E5EA]">
+              {Object.entries(cashOnHand).sort(([a], [b]) => a.localeCompare(b)).map(([currency, position]) => {
+                const shortfall = position.upcoming - position.balance;
+                return (
+                  <div key={currency} className="px-4 py-2.5 border-b border-[#E5E5EA]">
+                    <div className="flex justify-between items-center">
+                      <span className="text-[15px] text-black">{currency}</span>
+                      <span className={`text-[15px] font-medium ${position.balance < 0 ? 'text-[#FF3B30]' : 'text-black'}`}>{formatMoney(position.balance, currency)}</span>
+                    </div>
+                    <div className="text-[12px] text-[#8E8E93]">
+                      {formatMoney(position.received, currency)} in · {formatMoney(position.spent, currency)} spent
+                      {position.balance < 0 && ' · more spent than logged'}
+                    </div>
+                    {position.upcoming > 0 && (
+                      <div className={`text-[12px] mt-0.5 flex items-center gap-1 ${shortfall > 0 ? 'text-orange-600' : 'text-[#8E8E93]'}`}>
+                        {shortfall > 0 && <AlertTriangle className="w-3 h-3 shrink-0" />}
+                        {formatMoney(position.upcoming, currency)} needed for {position.upcomingEvents.length} cash-only {position.upcomingEvents.length === 1 ? 'event' : 'events'} ahead
+                        {shortfall > 0 ? `, ${formatMoney(shortfall, currency)} short` : ', covered'}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+              {cashEntries.map(entry => (
+                <button
+                  key={entry.id}
+                  onClick={() => setEditingCash(entry)}
+                  className="w-full text-left flex justify-between items-center px-4 py-2.5 border-b border-[#E5E5EA] active:bg-gray-50"
+                >
+                  <span className="flex flex-col">
+                    <span className="text-[15px] text-black">{entry.note || (entry.fromCurrency ? 'Exchange' : 'Withdrawal')}</span>
+                    <span className="text-[12px] text-[#8E8E93]">
+                      {new Date(`${entry.date}T00:00`).toLocaleDateString()}
+                      {entry.fromCurrency && ` · for ${formatMoney(entry.fromAmount!, entry.fromCurrency)}`}
+                    </span>
+                  </span>
+                  <span className="text-[15px] text-[#34C759] font-medium">+{formatMoney(entry.amount, entry.currency)}</span>
+                </button>
+              ))}
+              <button
+                onClick={() => activeTrip && setEditingCash(createCashEntry(activeTrip))}
+                className="w-full px-4 py-3 flex items-center gap-2 text-[15px] text-[#007AFF] active:bg-gray-50"
+              >
+                <Banknote className="w-4 h-4" /> Log Cash…
+              </button>
+            </div>
+            <p className="px-4 text-[12px] text-[#8E8E93] mt-2">
+              Cash expenses and events paid in cash come off automatically once their day comes or they're marked paid.
+            </p>
+          </div>
+
+          {Object.keys(balances).length > 0 && (
+            <div className="space-y-1">
+              <div className="pl-4 text-[13px] text-[#8E8E93] uppercase mb-1">Settle Up</div>
+              <div className="bg-white rounded-xl overflow-hidden border border-[#E5E5EA]">
+                {Object.entries(summary.byTraveler).sort(([a], [b]) => a.localeCompare(b)).map(([name, { paid, owed }]) => (
+                  <div key={name} className="flex justify-between items-center px-4 py-2.5 border-b border-[#E5E5EA] last:border-0">
+                    <div>
+                      <div className="text-[15px] text-black">{name}</div>
+                      <div className="text-[12px] text-[#8E8E93]">Paid {formatMoney(paid, homeCurrency)} · share {formatMoney(owed, homeCurrency)}</div>
+                    </div>
+                    <span className={`text-[15px] font-medium ${Math.abs(paid - owed) < 0.005 ? 'text-[#8E8E93]' : paid > owed ? 'text-[#34C759]' : 'text-[#FF3B30]'}`}>
+                      {Math.abs(paid - owed) < 0.005 ? 'Even' : `${paid > owed ? 'gets' : 'owes'} ${formatMoney(Math.abs(paid - owed), homeCurrency)}`}
+                    </span>
+                  </div>
+                ))}
+              </div>
+              {transfers.length > 0 && (
+                <div className="bg-white rounded-xl overflow-hidden border border-[#E5E5EA] mt-3">
+                  {transfers.map(t => (
+                    <div key={`${t.from}-${t.to}`} className="flex justify-between items-center px-4 py-2.5 border-b border-[#E5E5EA] last:border-0">
+                      <span className="text-[15px] text-black">{t.from} → {t.to}</span>
+                      <span className="text-[15px] font-semibold text-black">{formatMoney(t.amount, homeCurrency)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <p className="px-4 text-[12px] text-[#8E8E93] mt-2">
+                Shared costs only, at what was actually paid in {homeCurrency}. {transfers.length > 0 ? 'These transfers square everyone up.' : 'Everyone is square.'}
+              </p>
+            </div>
+          )}
+
+           <div className="space-y-1">
+             <div className="pl-4 text-[13px] text-[#8E8E93] uppercase mb-1">AI Assistant</div>
+             <button
+               onClick={() => setIsAiSettingsOpen(true)}
+               className="w-full bg-white rounded-xl px-4 py-3 border border-[#E5E5EA] flex items-center justify-between active:bg-gray-50"
+             >
+               <span className="flex items-center gap-2 text-[15px] font-medium text-black">
+                 <Sparkles className="w-4 h-4 text-purple-600" />
+                 {AI_PROVIDERS.find(p => p.id === aiSettings.provider)?.label}
+               </span>
+               <span className="text-[13px] text-[#8E8E93]">{aiSettings.provider === 'mock' ? 'No network' : aiSettings[aiSettings.provider].model}</span>
+             </button>
+          </div>
+
            <div className="space-y-1">
              <div className="pl-4 text-[13px] text-[#8E8E93] uppercase mb-1">Data Backup</div>
              <div className="bg-white rounded-xl p-3 border border-[#E5E5EA] flex gap-3">
                <button 
-                 onClick={handleExportBackup}
+                 onClick={() => setIsExportOpen(true)}
                  className="flex-1 flex flex-col items-center justify-center gap-2 py-3 rounded-lg bg-[#F2F2F7] active:bg-[#E5E5EA] text-[#007AFF]"
                >
                  <Download className="w-5 h-5" />
@@ -1440,55 +3989,159 @@ export default function App() {
                </button>
              </div>
              <p className="px-4 text-[12px] text-[#8E8E93] mt-2">
-               Download a file to keep your data safe, or paste a backup file to restore lost trips.
+               Backups cover the current trip. Download a file to keep your data safe, or paste a backup file to restore it.
+             </p>
+          </div>
+
+          <div className="space-y-1">
+             <div className="pl-4 text-[13px] text-[#8E8E93] uppercase mb-1">Calendar</div>
+             <div className="bg-white rounded-xl p-3 border border-[#E5E5EA] flex gap-3">
+               <button 
+                 onClick={() => setIsCalendarExportOpen(true)}
+                 className="flex-1 flex flex-col items-center justify-center gap-2 py-3 rounded-lg bg-[#F2F2F7] active:bg-[#E5E5EA] text-[#007AFF]"
+               >
+                 <Calendar className="w-5 h-5" />
+                 <span className="text-[13px] font-semibold">Export .ics</span>
+               </button>
+               <button 
+                 onClick={() => calendarInputRef.current?.click()}
+                 className="flex-1 flex flex-col items-center justify-center gap-2 py-3 rounded-lg bg-[#F2F2F7] active:bg-[#E5E5EA] text-[#007AFF]"
+               >
+                 <Upload className="w-5 h-5" />
+                 <span className="text-[13px] font-semibold">Import .ics</span>
+               </button>
+               <input
+                 ref={calendarInputRef}
+                 type="file"
+                 accept=".ics,text/calendar"
+                 className="hidden"
+                 onChange={(e) => {
+                   const file = e.target.files?.[0];
+                   if (file) handleImportCalendar(file);
+                   e.target.value = '';
+                 }}
+               />
+             </div>
+             <p className="px-4 text-[12px] text-[#8E8E93] mt-2">
+               Exported events keep their IDs, so importing the same file again updates them instead of adding duplicates.
              </p>
           </div>
 
           <div className="space-y-1">
-             <div className="pl-4 text-[13px] text-[#8E8E93] uppercase mb-1">Exchange Rates (to HKD)</div>
+             <div className="pl-4 text-[13px] text-[#8E8E93] uppercase mb-1">Exchange Rates (to {homeCurrency})</div>
              <div className="bg-white rounded-xl overflow-hidden border border-[#E5E5EA]">
+                <IOSCurrencySelect label="Home Currency" value={homeCurrency} onChange={handleChangeHomeCurrency} />
                 {usedCurrencies.length === 0 && (
-                  <div className="p-4 text-center text-[#8E8E93] text-[15px]">No currencies used yet.</div>
+                  <div className="p-4 text-center text-[#8E8E93] text-[15px]">No other currencies used yet.</div>
                 )}
                 {usedCurrencies.map(currency => (
                   <IOSInput 
                     key={currency}
                     label={`1 ${currency} =`}
                     type="number"
-                    step="0.01"
+                    step="any"
                     placeholder="0.00"
                     value={exchangeRates[currency]}
                     onChange={(e: any) => setExchangeRates(prev => ({ 
                       ...prev, 
                       [currency]: e.target.value === '' ? 0 : parseFloat(e.target.value) 
                     }))}
-                    rightElement={<span className="text-[15px] text-[#8E8E93] ml-2">HKD</span>}
+                    rightElement={
+                      <span className="flex items-center gap-1 ml-2">
+                        {placeholders.includes(currency) && <AlertTriangle className="w-4 h-4 text-orange-500" />}
+                        <span className="text-[15px] text-[#8E8E93]">{homeCurrency}</span>
+                      </span>
+                    }
                   />
                 ))}
+                <button
+                  onClick={() => setIsRateImportOpen(true)}
+                  className="w-full px-4 py-3 flex items-center gap-2 text-[15px] text-[#007AFF] border-t border-[#E5E5EA] active:bg-gray-50"
+                >
+                  <Download className="w-4 h-4" /> Import Rates…
+                </button>
              </div>
+             {placeholders.length > 0 && (
+               <p className="px-4 text-[12px] text-orange-600 mt-2">
+                 {placeholders.join(', ')} still {placeholders.length === 1 ? 'has' : 'have'} a placeholder rate of 1.0. Enter or import a rate to get a correct total.
+               </p>
+             )}
+             {historyDates.length > 0 && (
+               <p className="px-4 text-[12px] text-[#8E8E93] mt-2">
+                 Imported rates cover {historyDates[0]} to {historyDates[historyDates.length - 1]}. Expenses in those currencies convert at the rate for their date.
+               </p>
+             )}
           </div>
 
           <div className="space-y-1">
              <div className="pl-4 text-[13px] text-[#8E8E93] uppercase mb-1">Transactions</div>
              <div className="bg-white rounded-xl overflow-hidden border border-[#E5E5EA]">
-                {events.filter(e => e.cost > 0).map((e) => (
+                {transactionRows.map(({ event: e, expense: x }) => x ? (
+                  <button key={x.id} onClick={() => setEditingExpense(x)} className="w-full text-left flex justify-between items-center p-4 border-b border-[#E5E5EA] last:border-0 active:bg-gray-50">
+                     <div className="flex flex-col">
+                        <span className="text-[15px] font-medium text-black flex items-center gap-1.5">
+                          {x.title || CATEGORY_LABELS[x.category]}
+                          {x.receiptId && <Receipt className="w-3.5 h-3.5 text-[#8E8E93]" />}
+                        </span>
+                        <span className="text-[13px] text-[#8E8E93]">
+                          {new Date(`${x.date}T00:00`).toLocaleDateString()} · {CATEGORY_LABELS[x.category]}
+                          {x.paymentMethod && ` · ${x.paymentMethod}`}
+                          {x.eventId && events.some(ev => ev.id === x.eventId) && ` · ${events.find(ev => ev.id === x.eventId)!.title}`}
+                        </span>
+                     </div>
+                     <div className="text-right">
+                        <div className="text-[15px] font-medium text-black">{formatMoney(x.amount, x.currency)}</div>
+                        {x.currency !== homeCurrency && (
+                          <div className="text-[12px] text-[#8E8E93]">{formatMoney(x.amount * getRate(x.currency, x.date), homeCurrency, { whole: true })}</div>
+                        )}
+                     </div>
+                  </button>
+                ) : e && (
                   <div key={e.id} className="flex justify-between items-center p-4 border-b border-[#E5E5EA] last:border-0">
                      <div className="flex flex-col">
                         <span className="text-[15px] font-medium text-black">{e.title}</span>
-                        <span className="text-[13px] text-[#8E8E93]">{new Date(e.startTime).toLocaleDateString()}</span>
+                        <span className="text-[13px] text-[#8E8E93]">
+                          {new Date(e.startTime).toLocaleDateString()}
+                          {e.type === 'lodging' && e.spreadCost && ` · spread over ${getStayNights(e).length} nights`}
+                          {e.paymentStatus && ` · ${e.paymentStatus === 'paid' ? 'Paid' : 'Deposit paid'}`}
+                          {e.paymentMethod && ` · ${e.paymentMethod}`}
+                        </span>
                      </div>
                      <div className="text-right">
-                        <div className="text-[15px] font-medium text-black">{e.cost.toFixed(2)} {e.currency}</div>
-                        <div className="text-[12px] text-[#8E8E93]">
-                          HK${(e.cost * (exchangeRates[e.currency] || 1)).toFixed(0)}
-                        </div>
+                        <div className="text-[15px] font-medium text-black">{formatMoney(getActualCost(e), e.currency)}</div>
+                        {e.actualCost !== undefined && e.actualCost !== e.cost && (
+                          <div className="text-[12px] text-[#8E8E93]">planned {formatMoney(e.cost, e.currency)}</div>
+                        )}
+                        {e.currency !== homeCurrency && (
+                          <div className="text-[12px] text-[#8E8E93]">
+                            {formatMoney(Object.values(getEventSpend(e, getRate)).reduce((sum, spend) => sum + spend.actual, 0), homeCurrency, { whole: true })}
+                          </div>
+                        )}
                      </div>
                   </div>
                 ))}
-                {events.filter(e => e.cost > 0).length === 0 && (
+                {transactionRows.length === 0 && (
                   <div className="p-4 text-center text-[#8E8E93] text-[15px]">No expenses recorded yet.</div>
                 )}
              </div>
+             {transactionRows.length > 0 && (
+               <div className="bg-white rounded-xl p-3 border border-[#E5E5EA] flex gap-3 mt-3">
+                 <button
+                   onClick={handleExportCsv}
+                   className="flex-1 flex flex-col items-center justify-center gap-2 py-3 rounded-lg bg-[#F2F2F7] active:bg-[#E5E5EA] text-[#007AFF]"
+                 >
+                   <FileSpreadsheet className="w-5 h-5" />
+                   <span className="text-[13px] font-semibold">Export CSV</span>
+                 </button>
+                 <button
+                   onClick={handleExportStatement}
+                   className="flex-1 flex flex-col items-center justify-center gap-2 py-3 rounded-lg bg-[#F2F2F7] active:bg-[#E5E5EA] text-[#007AFF]"
+                 >
+                   <Printer className="w-5 h-5" />
+                   <span className="text-[13px] font-semibold">Statement</span>
+                 </button>
+               </div>
+             )}
           </div>
         </div>
       </div>
@@ -1504,21 +4157,120 @@ export default function App() {
         onProcess={handleSmartPaste}
       />
 
+      <PasteReviewModal
+        drafts={pasteDrafts}
+        onCancel={() => setPasteDrafts(null)}
+        onAdd={handleAddPasted}
+      />
+
+      <ExportBackupModal
+        isOpen={isExportOpen}
+        onClose={() => setIsExportOpen(false)}
+        onExport={handleExportBackup}
+      />
+
+      <AiSettingsModal
+        isOpen={isAiSettingsOpen}
+        onClose={() => setIsAiSettingsOpen(false)}
+      />
+
+      <ExpenseModal
+        expense={editingExpense}
+        isNew={!!editingExpense && !expenses.some(x => x.id === editingExpense.id)}
+        events={events}
+        travelers={activeTrip?.travelers || []}
+        onClose={() => setEditingExpense(null)}
+        onSave={handleSaveExpense}
+        onDelete={handleDeleteExpense}
+        onViewReceipt={handleViewReceipt}
+      />
+
+      <CashEntryModal
+        entry={editingCash}
+        isNew={!!editingCash && !cashEntries.some(c => c.id === editingCash.id)}
+        onClose={() => setEditingCash(null)}
+        onSave={handleSaveCash}
+        onDelete={handleDeleteCash}
+      />
+
+      <PhotoViewer photo={viewedPhoto} onClose={() => setViewedPhoto(null)} />
+      <TicketViewer ticket={viewedTicket} onClose={() => setViewedTicket(null)} />
+
+      <BudgetModal
+        isOpen={isBudgetOpen}
+        budget={activeTrip?.budget}
+        homeCurrency={homeCurrency}
+        onClose={() => setIsBudgetOpen(false)}
+        onSave={(budget) => {
+          setIsBudgetOpen(false);
+          updateActiveTrip(t => ({ ...t, budget }));
+        }}
+      />
+
+      <RateImportModal
+        isOpen={isRateImportOpen}
+        homeCurrency={homeCurrency}
+        range={activeTrip ? getRateRange(activeTrip) : { start: '', end: '' }}
+        onClose={() => setIsRateImportOpen(false)}
+        onImport={handleImportRates}
+      />
+
+      <CalendarExportModal
+        isOpen={isCalendarExportOpen}
+        defaultFrom={activeTrip?.startDate || ''}
+        defaultTo={activeTrip?.endDate || ''}
+        onClose={() => setIsCalendarExportOpen(false)}
+        onExport={handleExportCalendar}
+      />
+
       <RestoreModal 
         isOpen={isRestoreOpen}
         onClose={() => setIsRestoreOpen(false)}
         onRestore={handleRestoreBackup}
       />
 
+      <MergeReviewModal
+        entries={pendingMerge?.entries || null}
+        onCancel={() => setPendingMerge(null)}
+        onApply={handleApplyMerge}
+      />
+
+      <ImportSummaryModal
+        summary={importSummary}
+        onClose={() => setImportSummary(null)}
+      />
+
+      <TripsModal
+        isOpen={isTripsOpen}
+        trips={trips}
+        activeTripId={activeTrip?.id || ''}
+        onClose={() => setIsTripsOpen(false)}
+        onSelect={setActiveTripId}
+        onSave={handleSaveTrip}
+        onDelete={handleDeleteTrip}
+      />
+
       <SystemModal 
         isOpen={modalConfig.isOpen}
         title={modalConfig.title}
         message={modalConfig.message}
         type={modalConfig.type}
+        confirmLabel={modalConfig.confirmLabel}
         onClose={() => setModalConfig({ ...modalConfig, isOpen: false })}
         onConfirm={modalConfig.onConfirm}
       />
 
+      {(!isOnline || aiQueue.length > 0) && (
+        <div className="fixed top-2 left-1/2 -translate-x-1/2 z-50 flex items-center gap-1.5 px-3 py-1 rounded-full bg-black/75 text-white text-[12px] font-medium shadow-lg backdrop-blur">
+          {isOnline ? <Loader2 className="w-3 h-3 animate-spin" /> : <WifiOff className="w-3 h-3" />}
+          {isOnline ? 'Running saved AI requests' : 'Offline'}
+          {aiQueue.length > 0 && ` · ${aiQueue.length} waiting`}
+          {aiQueue.length > 0 && (
+            <button onClick={handleClearAiQueue} className="ml-1 pl-2 border-l border-white/30 text-[#64D2FF] font-semibold">Clear</button>
+          )}
+        </div>
+      )}
+
       {/* Main Content Area */}
       <div className="h-screen overflow-y-auto no-scrollbar">
         {view === 'itinerary' && renderItineraryView()}
@@ -1548,13 +4300,7 @@ export default function App() {
 
            <button 
              onClick={() => {
-                setFormData({
-                  type: 'activity',
-                  isCashOnly: false,
-                  startTime: toLocalISOString(new Date()),
-                  cost: 0,
-                  currency: 'EUR'
-                });
+                setFormData(createEmptyForm(events));
                 setView('add');
              }}
              className="flex flex-col items-center gap-1 w-16"
@@ -0,0 +1,382 @@
+// --- AI Providers ---
+//
+// Every AI feature goes through `generateText`, which picks the configured provider and
+// adds the timeout and retry handling. Settings (including API keys) stay in this
+// browser's localStorage and are never written to backups.
+
+export type AiProviderId = 'gemini' | 'openai' | 'ollama' | 'mock';
+
+// What the prompt is for; the mock provider answers each task with a fixed fixture
+export type AiTask = 'smart-paste' | 'estimate-cost' | 'enhance-event' | 'suggestions';
+
+export interface AiSettings {
+  provider: AiProviderId;
+  // Kept per provider so switching back and forth doesn't lose a key
+  gemini: { apiKey: string; model: string };
+  openai: { apiKey: string; model: string; baseUrl: string };
+  ollama: { model: string; baseUrl: string };
+  timeoutMs: number;
+  maxRetries: number;
+}
+
+export const AI_PROVIDERS: { id: AiProviderId; label: string; models: string[] }[] = [
+  { id: 'gemini', label: 'Gemini', models: ['gemini-2.5-flash', 'gemini-2.5-flash-lite', 'gemini-2.5-pro'] },
+  { id: 'openai', label: 'OpenAI-compatible', models: ['gpt-4o-mini', 'gpt-4.1-mini', 'gpt-4o'] },
+  { id: 'ollama', label: 'Ollama (local)', models: ['llama3.1', 'qwen2.5', 'mistral'] },
+  { id: 'mock', label: 'Offline demo', models: [] }
+];
+
+export const DEFAULT_AI_SETTINGS: AiSettings = {
+  provider: 'gemini',
+  gemini: { apiKey: '', model: 'gemini-2.5-flash' },
+  openai: { apiKey: '', model: 'gpt-4o-mini', baseUrl: 'https://api.openai.com/v1' },
+  ollama: { model: 'llama3.1', baseUrl: 'http://localhost:11434' },
+  timeoutMs: 30000,
+  maxRetries: 2
+};
+
+const SETTINGS_KEY = 'euro_travel_ai_settings';
+
+// --- Errors ---
+
+export type AiErrorKind =
+  | 'not-configured' // no key / model / URL yet
+  | 'auth' // key rejected
+  | 'rate-limit'
+  | 'timeout'
+  | 'network' // offline, DNS, CORS
+  | 'server' // 5xx from the provider
+  | 'request' // other 4xx, usually a bad model name
+  | 'bad-response'; // answered, but not with usable text
+
+const RETRYABLE: AiErrorKind[] = ['rate-limit', 'timeout', 'network', 'server'];
+
+export class AiError extends Error {
+  readonly kind: AiErrorKind;
+  readonly status?: number;
+  // Seconds the provider asked us to wait (Retry-After)
+  readonly retryAfter?: number;
+
+  constructor(kind: AiErrorKind, message: string, options: { status?: number; retryAfter?: number } = {}) {
+    super(message);
+    this.name = 'AiError';
+    this.kind = kind;
+    this.status = options.status;
+    this.retryAfter = options.retryAfter;
+  }
+
+  get retryable() {
+    return RETRYABLE.includes(this.kind);
+  }
+}
+
+// Title and message for the alert shown when an AI feature fails
+export const describeAiError = (error: unknown): { title: string; message: string } => {
+  if (!(error instanceof AiError)) {
+    return { title: 'AI Error', message: (error as Error)?.message || 'Something went wrong.' };
+  }
+  switch (error.kind) {
+    case 'not-configured':
+      return { title: 'AI Not Set Up', message: `${error.message} Open Wallet → AI Assistant to configure it.` };
+    case 'auth':
+      return { title: 'API Key Rejected', message: `${error.message} Check the key in Wallet → AI Assistant.` };
+    case 'rate-limit':
+      return { title: 'Too Many Requests', message: 'The AI provider is rate limiting requests. Wait a minute and try again.' };
+    case 'timeout':
+      return { title: 'AI Timed Out', message: 'The AI provider took too long to answer. Try again, or raise the timeout in settings.' };
+    case 'network':
+      return { title: 'No Connection', message: `Couldn't reach the AI provider. ${error.message}` };
+    case 'server':
+      return { title: 'AI Provider Error', message: `The provider had a problem (${error.status ?? 'unknown'}). Try again shortly.` };
+    case 'request':
+      return { title: 'AI Request Failed', message: error.message };
+    case 'bad-response':
+      return { title: 'Unexpected AI Answer', message: error.message };
+  }
+};
+
+// --- Settings ---
+
+export const loadAiSettings = (): AiSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) || 'null');
+    if (!saved || typeof saved !== 'object') return DEFAULT_AI_SETTINGS;
+    // Field by field so settings saved by an older version pick up new defaults
+    return {
+      ...DEFAULT_AI_SETTINGS,
+      ...saved,
+      gemini: { ...DEFAULT_AI_SETTINGS.gemini, ...saved.gemini },
+      openai: { ...DEFAULT_AI_SETTINGS.openai, ...saved.openai },
+      ollama: { ...DEFAULT_AI_SETTINGS.ollama, ...saved.ollama }
+    };
+  } catch {
+    return DEFAULT_AI_SETTINGS;
+  }
+};
+
+export const saveAiSettings = (settings: AiSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// --- Providers ---
+
+interface AiRequest {
+  prompt: string;
+  task?: AiTask;
+  signal: AbortSignal;
+}
+
+interface AiProvider {
+  generate(request: AiRequest): Promise<string>;
+}
+
+const trimSlash = (url: string) => url.replace(/\/+$/, '');
+
+// Turns an HTTP failure into the matching AiError, using the provider's own message when it has one
+const toHttpError = async (response: Response): Promise<AiError> => {
+  let detail = '';
+  try {
+    const body = await response.json();
+    detail = body?.error?.message || body?.error || body?.message || '';
+  } catch {
+    // Not JSON; the status is all we have
+  }
+  const status = response.status;
+  const message = typeof detail === 'string' && detail ? detail : `HTTP ${status}`;
+  if (status === 401 || status === 403) return new AiError('auth', message, { status });
+  if (status === 429) {
+    const retryAfter = Number(response.headers.get('Retry-After')) || undefined;
+    return new AiError('rate-limit', message, { status, retryAfter });
+  }
+  if (status >= 500) return new AiError('server', message, { status });
+  return new AiError('request', message, { status });
+};
+
+const postJson = async (url: string, body: unknown, headers: { [key: string]: string }, signal: AbortSignal) => {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal
+    });
+  } catch (e) {
+    // Aborts are handled by the caller, which knows whether it was the timeout
+    if ((e as Error).name === 'AbortError') throw e;
+    throw new AiError('network', navigator.onLine === false ? 'You appear to be offline.' : (e as Error).message);
+  }
+  if (!response.ok) throw await toHttpError(response);
+  try {
+    return await response.json();
+  } catch {
+    throw new AiError('bad-response', 'The provider sent something other than JSON.');
+  }
+};
+
+const requireText = (text: unknown) => {
+  if (typeof text !== 'string' || !text.trim()) throw new AiError('bad-response', 'The provider returned an empty answer.');
+  return text;
+};
+
+const createGeminiProvider = ({ apiKey, model }: AiSettings['gemini']): AiProvider => ({
+  async generate({ prompt, signal }) {
+    if (!apiKey) throw new AiError('not-configured', 'No Gemini API key has been entered.');
+    const data = await postJson(
+      `https://generativelanguage.googleapis.com/v1beta/models/${encodeURIComponent(model)}:generateContent`,
+      {
+        contents: [{ parts: [{ text: prompt }] }],
+        generationConfig: { responseMimeType: 'application/json' }
+      },
+      { 'x-goog-api-key': apiKey },
+      signal
+    );
+    if (data.promptFeedback?.blockReason) {
+      throw new AiError('bad-response', `Gemini declined to answer (${data.promptFeedback.blockReason}).`);
+    }
+    return requireText(data.candidates?.[0]?.content?.parts?.map((p: { text?: string }) => p.text || '').join(''));
+  }
+});
+
+const createOpenAiProvider = ({ apiKey, model, baseUrl }: AiSettings['openai']): AiProvider => ({
+  async generate({ prompt, signal }) {
+    if (!baseUrl) throw new AiError('not-configured', 'No endpoint URL has been entered.');
+    // Self-hosted compatible servers often run without a key
+    const headers: { [key: string]: string } = apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+    const data = await postJson(
+      `${trimSlash(baseUrl)}/chat/completions`,
+      { model, messages: [{ role: 'user', content: prompt }] },
+      headers,
+      signal
+    );
+    return requireText(data.choices?.[0]?.message?.content);
+  }
+});
+
+const createOllamaProvider = ({ model, baseUrl }: AiSettings['ollama']): AiProvider => ({
+  async generate({ prompt, signal }) {
+    if (!baseUrl) throw new AiError('not-configured', 'No Ollama server URL has been entered.');
+    const data = await postJson(
+      `${trimSlash(baseUrl)}/api/generate`,
+      { model, prompt, stream: false, format: 'json' },
+      {},
+      signal
+    );
+    return requireText(data.response);
+  }
+});
+
+// Fixed answers so the AI features can be tried (and tested) without a network or key
+const MOCK_RESPONSES: { [task in AiTask]: unknown } = {
+  'smart-paste': [
+    {
+      title: 'Frecciarossa 9520 Milano → Roma',
+      location: 'Milano Centrale',
+      startTime: '2026-06-01T09:10',
+      endTime: '2026-06-01T12:20',
+      type: 'transport',
+      cost: 59.9,
+      currency: 'EUR',
+      seatInfo: 'Coach 5, Seat 8A',
+      transportMode: 'train'
+    },
+    {
+      title: 'Frecciarossa 9547 Roma → Milano',
+      location: 'Roma Termini',
+      startTime: '2026-06-04T18:00',
+      endTime: '2026-06-04T21:10',
+      type: 'transport',
+      cost: 49.9,
+      currency: 'EUR',
+      transportMode: 'train'
+    }
+  ],
+  'estimate-cost': { cost: 20, currency: 'EUR' },
+  'enhance-event': {
+    mustDo: ['Book tickets ahead', 'Go early to beat the queues'],
+    warnings: ['Watch for pickpockets in crowds'],
+    wikiSearchTerm: 'Colosseum'
+  },
+  suggestions: [
+    { title: 'Morning market walk', location: 'City centre', startTime: '09:00', dayOffset: 0, type: 'activity', cost: 0, currency: 'EUR', notes: 'Bring cash for stalls.', reason: 'A relaxed start to the trip.' },
+    { title: 'Local trattoria dinner', location: 'Old town', startTime: '19:30', dayOffset: 0, type: 'dining', cost: 35, currency: 'EUR', notes: 'Reserve a table.', reason: 'Regional dishes at fair prices.' }
+  ]
+};
+
+const mockProvider: AiProvider = {
+  async generate({ task }) {
+    // Untagged prompts (like the settings connection test) just get an acknowledgement
+    return JSON.stringify(task ? MOCK_RESPONSES[task] : { ok: true });
+  }
+};
+
+const createProvider = (settings: AiSettings): AiProvider => {
+  switch (settings.provider) {
+    case 'gemini': return createGeminiProvider(settings.gemini);
+    case 'openai': return createOpenAiProvider(settings.openai);
+    case 'ollama': return createOllamaProvider(settings.ollama);
+    case 'mock': return mockProvider;
+  }
+};
+
+// --- Requests ---
+
+const BASE_RETRY_DELAY_MS = 1000;
+// Longer waits than this aren't worth keeping the user staring at a spinner
+const MAX_RETRY_DELAY_MS = 20000;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Exponential backoff with jitter, or the provider's Retry-After when it sent one
+const getRetryDelay = (error: AiError, attempt: number) =>
+  error.retryAfter ? error.retryAfter * 1000 : BASE_RETRY_DELAY_MS * 2 ** attempt + Math.random() * 250;
+
+export const generateText = async (prompt: string, task?: AiTask, settings: AiSettings = loadAiSettings()): Promise<string> => {
+  const provider = createProvider(settings);
+
+  for (let attempt = 0; ; attempt++) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), settings.timeoutMs);
+    try {
+      return await provider.generate({ prompt, task, signal: controller.signal });
+    } catch (e) {
+      const error = e instanceof AiError ? e
+        : (e as Error).name === 'AbortError' ? new AiError('timeout', `No answer after ${Math.round(settings.timeoutMs / 1000)}s.`)
+        : new AiError('bad-response', (e as Error).message);
+      const delay = getRetryDelay(error, attempt);
+      if (!error.retryable || attempt >= settings.maxRetries || delay > MAX_RETRY_DELAY_MS) throw error;
+      await wait(delay);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+};
+
+// Pulls the JSON out of an AI answer, tolerating code fences and chatter around it
+export const parseJsonResponse = (text: string) => {
+  const clean = text.replace(/```json/g, '').replace(/```/g, '').trim();
+  try {
+    return JSON.parse(clean);
+  } catch {
+    const match = clean.match(/\{[\s\S]*\}|\[[\s\S]*\]/);
+    if (match) {
+      try {
+        return JSON.parse(match[0]);
+      } catch {
+        // Fall through to the error below
+      }
+    }
+    throw new AiError('bad-response', "The AI's answer didn't contain readable JSON.");
+  }
+};
+
+// --- Structured Answers ---
+//
+// Each AI feature describes the JSON it expects as a schema. Answers are validated (with
+// obvious mistakes coerced) and, when they still don't fit, the model is shown its answer
+// and the problems and asked again before we give up.
+
+export interface AiValidation<T> {
+  // Undefined when nothing usable could be salvaged
+  value?: T;
+  errors: string[];
+}
+
+export interface AiSchema<T> {
+  task: AiTask;
+  validate: (raw: unknown) => AiValidation<T>;
+}
+
+// Follow-up prompts after the first answer
+const MAX_REPAIR_ATTEMPTS = 2;
+
+const buildRepairPrompt = (prompt: string, answer: string, errors: string[]) => `${prompt}
+
+Your previous answer was:
+${answer}
+
+It did not match the required format:
+${errors.map(e => `- ${e}`).join('\n')}
+
+Reply again with corrected JSON only, following the required format exactly.`;
+
+export const generateStructured = async <T>(prompt: string, schema: AiSchema<T>, settings: AiSettings = loadAiSettings()): Promise<T> => {
+  let currentPrompt = prompt;
+  for (let attempt = 0; ; attempt++) {
+    const answer = await generateText(currentPrompt, schema.task, settings);
+    let result: AiValidation<T>;
+    try {
+      result = schema.validate(parseJsonResponse(answer));
+    } catch (e) {
+      result = { errors: [(e as Error).message] };
+    }
+
+    if (result.errors.length === 0 && result.value !== undefined) return result.value;
+    if (attempt >= MAX_REPAIR_ATTEMPTS) {
+      // A partly valid answer (e.g. 4 of 5 suggestions) beats nothing
+      if (result.value !== undefined) return result.value;
+      throw new AiError('bad-response', `The AI's answer didn't have the expected format: ${result.errors.slice(0, 3).join('; ')}`);
+    }
+    currentPrompt = buildRepairPrompt(prompt, answer, result.errors);
+  }
+};
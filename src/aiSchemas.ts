@@ -0,0 +1,223 @@
+import type { EventType, Suggestion, TravelEvent } from './types';
+import type { AiSchema, AiValidation } from './ai';
+import { EVENT_TYPES, coerceMoney, isObject, isValidDateTime } from './validation';
+import { addDays } from './lodging';
+
+// --- AI Answer Schemas ---
+//
+// One schema per AI feature. Coercions fix what a model commonly gets slightly wrong;
+// errors are phrased so they can be sent back to the model as-is.
+
+export type SmartPasteResult = Pick<TravelEvent, 'title' | 'startTime'> &
+  Partial<Pick<TravelEvent, 'location' | 'endTime' | 'type' | 'cost' | 'currency' | 'seatInfo' | 'platform' | 'transportMode'>>;
+
+export interface CostEstimate {
+  cost: number;
+  currency: string;
+}
+
+export interface EventGuide {
+  mustDo: string[];
+  warnings: string[];
+  wikiSearchTerm?: string;
+}
+
+// --- Coercions ---
+
+const TYPE_SYNONYMS: [RegExp, EventType][] = [
+  [/hotel|hostel|stay|accommodation|airbnb|apartment|lodg/, 'lodging'],
+  [/train|flight|plane|bus|coach|ferry|transfer|transport/, 'transport'],
+  [/restaurant|food|meal|breakfast|brunch|lunch|dinner|cafe|bar|din/, 'dining'],
+  [/activit|sight|tour|museum|visit|attraction/, 'activity']
+];
+
+const coerceEventType = (value: unknown): EventType | null => {
+  if (typeof value !== 'string') return null;
+  const lower = value.trim().toLowerCase();
+  if (EVENT_TYPES.includes(lower as EventType)) return lower as EventType;
+  return TYPE_SYNONYMS.find(([pattern]) => pattern.test(lower))?.[1] || null;
+};
+
+// "9:00", "09:00:00", "7.30pm", "2026-06-01T09:00" → "HH:mm"
+const coerceClockTime = (value: unknown): string | null => {
+  if (typeof value !== 'string') return null;
+  const match = value.trim().match(/(?:^|T|\s)(\d{1,2})[:.h](\d{2})(?::\d{2})?\s*(am|pm)?/i)
+    || value.trim().match(/^(\d{1,2})()\s*(am|pm)$/i);
+  if (!match) return null;
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] || 0);
+  const meridiem = match[3]?.toLowerCase();
+  if (meridiem === 'pm' && hours < 12) hours += 12;
+  if (meridiem === 'am' && hours === 12) hours = 0;
+  if (hours > 23 || minutes > 59) return null;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+};
+
+// Full ISO (zone suffix dropped, times are wall clock), a date alone, or a bare time on `baseDate`
+const coerceDateTime = (value: unknown, baseDate?: string): string | null => {
+  if (typeof value !== 'string' || !value.trim()) return null;
+  const text = value.trim();
+  const iso = text.match(/^(\d{4}-\d{2}-\d{2})(?:[T ](\d{2}:\d{2}))?/);
+  if (iso && isValidDateTime(iso[1])) return `${iso[1]}T${iso[2] || '00:00'}`;
+  const clock = coerceClockTime(text);
+  return clock && baseDate ? `${baseDate}T${clock}` : null;
+};
+
+const optionalText = (value: unknown) =>
+  typeof value === 'string' && value.trim() ? value.trim() : typeof value === 'number' ? String(value) : undefined;
+
+const textList = (value: unknown): string[] | null => {
+  if (value === undefined || value === null) return [];
+  if (typeof value === 'string') return value.trim() ? [value.trim()] : [];
+  if (!Array.isArray(value)) return null;
+  return value.map(optionalText).filter((item): item is string => !!item);
+};
+
+// Cost and currency together, since "€30" in the cost field also answers the currency
+const readMoney = (raw: Record<string, unknown>, errors: string[], required: boolean) => {
+  const money = raw.cost === undefined || raw.cost === null || raw.cost === '' ? (required ? null : { amount: 0 }) : coerceMoney(raw.cost);
+  if (!money) errors.push(raw.cost === undefined ? 'cost: is required' : `cost: ${JSON.stringify(raw.cost)} is not a number`);
+  else if (money.amount < 0) errors.push('cost: must not be negative');
+
+  const code = typeof raw.currency === 'string' ? raw.currency.trim().toUpperCase() : '';
+  const currency = /^[A-Z]{3}$/.test(code) ? code : coerceMoney(`1 ${raw.currency ?? ''}`)?.currency || money?.currency;
+  if (!currency && (required || (money && money.amount > 0))) {
+    errors.push(raw.currency ? `currency: ${JSON.stringify(raw.currency)} is not a 3-letter ISO code like EUR` : 'currency: is required, as a 3-letter ISO code like EUR');
+  }
+  return { cost: money?.amount, currency };
+};
+
+// --- Schemas ---
+
+// One pasted event; errors are pushed unprefixed
+const readPastedEvent = (raw: Record<string, unknown>, errors: string[]): SmartPasteResult | undefined => {
+  const title = optionalText(raw.title);
+  if (!title) errors.push('title: is required');
+  const startTime = coerceDateTime(raw.startTime);
+  if (!startTime) errors.push(`startTime: ${JSON.stringify(raw.startTime)} is not a date/time like 2026-06-01T09:30`);
+  // An end given as just "12:20" is on the start date, or the next day if that would be earlier
+  let endTime = raw.endTime ? coerceDateTime(raw.endTime, startTime?.slice(0, 10)) : '';
+  if (endTime === null) {
+    errors.push(`endTime: ${JSON.stringify(raw.endTime)} is not a date/time like 2026-06-01T11:00`);
+  } else if (endTime && startTime && endTime < startTime && !/^\d{4}-/.test(String(raw.endTime))) {
+    endTime = `${addDays(endTime.slice(0, 10), 1)}${endTime.slice(10)}`;
+  }
+
+  const type = raw.type === undefined ? 'activity' : coerceEventType(raw.type);
+  if (!type) errors.push(`type: ${JSON.stringify(raw.type)} is not one of ${EVENT_TYPES.join(', ')}`);
+  const mode = typeof raw.transportMode === 'string' ? raw.transportMode.toLowerCase() : '';
+  const transportMode = (['train', 'bus', 'flight'] as const).find(m => mode.includes(m) || (m === 'flight' && mode.includes('plane')));
+  const before = errors.length;
+  const { cost, currency } = readMoney(raw, errors, false);
+
+  if (!title || !startTime || !type || errors.length > before || endTime === null) return undefined;
+  return {
+    title,
+    startTime,
+    endTime: endTime || '',
+    location: optionalText(raw.location) || '',
+    type,
+    cost: cost || 0,
+    currency,
+    seatInfo: optionalText(raw.seatInfo),
+    platform: optionalText(raw.platform),
+    transportMode: type === 'transport' ? transportMode || 'train' : undefined
+  };
+};
+
+// A list of events; a lone object or a wrapper like { "events": [...] } is accepted too
+export const smartPasteSchema: AiSchema<SmartPasteResult[]> = {
+  task: 'smart-paste',
+  validate: (raw): AiValidation<SmartPasteResult[]> => {
+    const list = Array.isArray(raw) ? raw : isObject(raw) ? Object.values(raw).find(Array.isArray) || [raw] : undefined;
+    if (!list) return { errors: ['expected a JSON array of event objects'] };
+    if (list.length === 0) return { errors: ['expected at least one event'] };
+
+    const errors: string[] = [];
+    const events: SmartPasteResult[] = [];
+    list.forEach((item, i) => {
+      // Single-event answers keep the plain field names in their errors
+      const prefix = list.length > 1 ? `item ${i + 1} ` : '';
+      if (!isObject(item)) {
+        errors.push(`${prefix}expected an object`.trim());
+        return;
+      }
+      const itemErrors: string[] = [];
+      const event = readPastedEvent(item, itemErrors);
+      errors.push(...itemErrors.map(e => `${prefix}${e}`));
+      if (event) events.push(event);
+    });
+    return { errors, value: events.length > 0 ? events : undefined };
+  }
+};
+
+export const costEstimateSchema: AiSchema<CostEstimate> = {
+  task: 'estimate-cost',
+  validate: (raw) => {
+    if (!isObject(raw)) return { errors: ['expected a JSON object with cost and currency'] };
+    const errors: string[] = [];
+    const { cost, currency } = readMoney(raw, errors, true);
+    return errors.length > 0 || cost === undefined || !currency ? { errors } : { errors, value: { cost, currency } };
+  }
+};
+
+export const eventGuideSchema: AiSchema<EventGuide> = {
+  task: 'enhance-event',
+  validate: (raw) => {
+    if (!isObject(raw)) return { errors: ['expected a JSON object with mustDo and warnings'] };
+    const errors: string[] = [];
+    // Models sometimes use the event's own field name instead
+    const mustDo = textList(raw.mustDo ?? raw.mustDos);
+    const warnings = textList(raw.warnings);
+    if (!mustDo) errors.push('mustDo: must be a list of short phrases');
+    if (!warnings) errors.push('warnings: must be a list of short phrases');
+    if (!mustDo || !warnings) return { errors };
+    return { errors, value: { mustDo, warnings, wikiSearchTerm: optionalText(raw.wikiSearchTerm) } };
+  }
+};
+
+export const suggestionsSchema: AiSchema<Suggestion[]> = {
+  task: 'suggestions',
+  validate: (raw) => {
+    // Unwrap { "suggestions": [...] } and similar single-key wrappers
+    const list = Array.isArray(raw) ? raw : isObject(raw) ? Object.values(raw).find(Array.isArray) : undefined;
+    if (!list) return { errors: ['expected a JSON array of suggestion objects'] };
+
+    const errors: string[] = [];
+    const suggestions: Suggestion[] = [];
+    list.forEach((item, i) => {
+      const prefix = `item ${i + 1}`;
+      if (!isObject(item)) {
+        errors.push(`${prefix}: expected an object`);
+        return;
+      }
+      const itemErrors: string[] = [];
+      const title = optionalText(item.title);
+      if (!title) itemErrors.push('title: is required');
+      const startTime = coerceClockTime(item.startTime);
+      if (!startTime) itemErrors.push(`startTime: ${JSON.stringify(item.startTime)} is not a time like 09:30`);
+      const dayOffset = Number(item.dayOffset ?? 0);
+      if (!Number.isInteger(dayOffset) || dayOffset < 0) itemErrors.push(`dayOffset: ${JSON.stringify(item.dayOffset)} is not a whole number from 0`);
+      const type = coerceEventType(item.type);
+      if (type !== 'activity' && type !== 'dining') itemErrors.push(`type: ${JSON.stringify(item.type)} must be activity or dining`);
+      const { cost, currency } = readMoney(item, itemErrors, false);
+
+      if (itemErrors.length > 0) {
+        errors.push(...itemErrors.map(e => `${prefix} ${e}`));
+        return;
+      }
+      suggestions.push({
+        title: title!,
+        location: optionalText(item.location) || '',
+        startTime: startTime!,
+        dayOffset,
+        type: type as EventType,
+        cost: cost || 0,
+        currency,
+        notes: optionalText(item.notes) || '',
+        reason: optionalText(item.reason) || ''
+      });
+    });
+    return { errors, value: suggestions.length > 0 ? suggestions : undefined };
+  }
+};
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { applyMerge, diffCalendarEvents, diffEvents } from './backup';
+import type { TravelEvent } from './types';
+
+const event = (id: string, title: string, startTime: string, fields: Partial<TravelEvent> = {}): TravelEvent => ({
+  id,
+  title,
+  location: '',
+  startTime,
+  endTime: '',
+  type: 'activity',
+  notes: '',
+  isCashOnly: false,
+  cost: 0,
+  currency: 'EUR',
+  ...fields
+});
+
+const museum = event('museum', 'Louvre', '2026-06-02T10:00');
+const dinner = event('dinner', 'Le Comptoir', '2026-06-02T20:00', { type: 'dining' });
+const tour = event('tour', 'Seine cruise', '2026-06-03T18:00');
+
+describe('diffEvents', () => {
+  it('matches by id, then by title and start time', () => {
+    const entries = diffEvents([museum, dinner, tour], [
+      { ...museum, cost: 22 },
+      event('other-id', 'le  comptoir', '2026-06-02T20:15', { type: 'dining' }),
+      event('new', 'Versailles', '2026-06-04T09:00')
+    ]);
+    expect(entries.map(e => [e.key, e.kind])).toEqual([
+      ['match:museum', 'changed'],
+      ['match:dinner', 'changed'],
+      ['removed:tour', 'removed'],
+      ['added:new', 'added']
+    ]);
+    expect(entries[0].changedFields).toEqual(['cost']);
+  });
+});
+
+describe('applyMerge', () => {
+  it('takes the backup by default and keeps local-only events', () => {
+    const entries = diffEvents([museum, tour], [{ ...museum, cost: 22 }, dinner]);
+    expect(applyMerge(entries, {})).toEqual([{ ...museum, cost: 22 }, dinner, tour]);
+  });
+
+  it('follows the choices made in the review', () => {
+    const entries = diffEvents([museum, tour], [{ ...museum, cost: 22 }, dinner]);
+    const merged = applyMerge(entries, { 'match:museum': 'current', 'added:dinner': 'current', 'removed:tour': 'incoming' });
+    expect(merged).toEqual([museum]);
+  });
+
+  it('keeps the local id of a fuzzy match', () => {
+    const entries = diffEvents([dinner], [{ ...dinner, id: 'from-backup', notes: 'Window table' }]);
+    expect(applyMerge(entries, {})).toEqual([{ ...dinner, notes: 'Window table' }]);
+  });
+});
+
+describe('diffCalendarEvents', () => {
+  it('keeps events that are not in the calendar file without asking', () => {
+    const { entries, kept } = diffCalendarEvents([museum, dinner, tour], [{ ...museum, location: 'Paris' }]);
+    expect(entries.map(e => e.kind)).toEqual(['changed']);
+    expect(kept).toEqual([dinner, tour]);
+
+    // Whatever is picked in the review, the rest of the trip stays
+    const merged = [...applyMerge(entries, { 'match:museum': 'current' }), ...kept];
+    expect(merged).toEqual([museum, dinner, tour]);
+  });
+});
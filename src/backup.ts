@@ -0,0 +1,264 @@
+import type { BackupFile, Budget, CashEntry, Expense, RateHistory, StoredFile, TravelEvent, TripDetails } from './types';
+import { migrateBackup, type RawBackup } from './storage';
+import { getEventStart } from './time';
+import { isObject, normalizeName, validateBackupFiles, validateBudget, validateCashList, validateEventList, validateExpenseList, validateRateHistory, validateRates, validateTripDetails, type ImportReport } from './validation';
+
+// --- Parsing ---
+
+// Strips whitespace and the byte order mark some editors add when saving the .txt
+const cleanText = (text: string) => text.replace(/^\uFEFF/, '').trim();
+
+export interface ParsedBackup {
+  trip?: Partial<TripDetails>;
+  events: TravelEvent[];
+  expenses: Expense[];
+  rates: { [key: string]: number };
+  rateHistory?: RateHistory;
+  budget?: Budget;
+  cash?: CashEntry[];
+  files?: BackupFile[];
+  report: ImportReport;
+}
+
+export const parseBackup = (text: string): ParsedBackup => {
+  let data: unknown;
+  try {
+    data = JSON.parse(cleanText(text));
+  } catch (e) {
+    throw new Error(`This is not a valid backup file (${(e as Error).message}).`);
+  }
+
+  // Handle raw array paste (user pasted just the events list)
+  if (Array.isArray(data)) {
+    data = { events: data };
+  }
+  if (!isObject(data)) {
+    throw new Error("Invalid data format: Not an object");
+  }
+  if (!Array.isArray(data.events)) {
+    throw new Error("Invalid backup: 'events' list missing or incorrect.");
+  }
+
+  // (Optional) Check app signature - Log warning instead of failing
+  if (data.app && data.app !== 'euro-travel-pocket') {
+    console.warn("Restoring data from potentially different app source.");
+  }
+
+  const backup = migrateBackup(data as RawBackup);
+  const { events, report } = validateEventList(backup.events as unknown[]);
+  const expenses = validateExpenseList(backup.expenses, report.notes);
+  const rates = validateRates(backup.rates, report.notes);
+  const rateHistory = validateRateHistory(backup.rateHistory, report.notes);
+  const budget = validateBudget(backup.budget, report.notes);
+  const cash = validateCashList(backup.cash, report.notes);
+  const files = validateBackupFiles(backup.files, report.notes);
+  const trip = validateTripDetails(backup.trip, report.notes);
+
+  if (events.length === 0 && report.rejected.length > 0) {
+    throw new Error(`None of the ${report.rejected.length} events in this backup could be read.`);
+  }
+
+  return { trip, events, expenses, rates, rateHistory, budget, cash, files, report };
+};
+
+// --- Merge ---
+
+export type MergeChoice = 'current' | 'incoming';
+
+export interface MergeEntry {
+  key: string;
+  // added: only in the backup, removed: only on this device
+  kind: 'added' | 'changed' | 'removed' | 'unchanged';
+  current?: TravelEvent;
+  incoming?: TravelEvent;
+  changedFields: (keyof TravelEvent)[];
+}
+
+// Events without a matching id still count as the same when the titles match and they start within this window
+const FUZZY_MATCH_WINDOW_MS = 30 * 60 * 1000;
+
+const isFuzzyMatch = (a: TravelEvent, b: TravelEvent) => {
+  if (!normalizeName(a.title) || normalizeName(a.title) !== normalizeName(b.title)) return false;
+  const diff = Math.abs(getEventStart(a).getTime() - getEventStart(b).getTime());
+  return diff <= FUZZY_MATCH_WINDOW_MS;
+};
+
+const getChangedFields = (current: TravelEvent, incoming: TravelEvent) => {
+  const keys = new Set([...Object.keys(current), ...Object.keys(incoming)] as (keyof TravelEvent)[]);
+  keys.delete('id');
+  return [...keys].filter(key => JSON.stringify(current[key] ?? null) !== JSON.stringify(incoming[key] ?? null));
+};
+
+const createEntry = (current: TravelEvent, incoming: TravelEvent): MergeEntry => {
+  const changedFields = getChangedFields(current, incoming);
+  return {
+    key: `match:${current.id}`,
+    kind: changedFields.length > 0 ? 'changed' : 'unchanged',
+    current,
+    incoming,
+    changedFields
+  };
+};
+
+export const diffEvents = (current: TravelEvent[], incoming: TravelEvent[]): MergeEntry[] => {
+  const unmatched = new Map(current.map(e => [e.id, e]));
+  const entries: MergeEntry[] = [];
+
+  const pending: TravelEvent[] = [];
+  incoming.forEach(event => {
+    const match = unmatched.get(event.id);
+    if (match) {
+      unmatched.delete(match.id);
+      entries.push(createEntry(match, event));
+    } else {
+      pending.push(event);
+    }
+  });
+
+  // Second pass so exact id matches always win over fuzzy ones
+  pending.forEach(event => {
+    const match = [...unmatched.values()].find(e => isFuzzyMatch(e, event));
+    if (match) {
+      unmatched.delete(match.id);
+      entries.push(createEntry(match, event));
+    } else {
+      entries.push({ key: `added:${event.id}`, kind: 'added', incoming: event, changedFields: [] });
+    }
+  });
+
+  unmatched.forEach(event => {
+    entries.push({ key: `removed:${event.id}`, kind: 'removed', current: event, changedFields: [] });
+  });
+
+  return entries.sort((a, b) => {
+    const aTime = getEventStart((a.incoming || a.current)!).getTime();
+    const bTime = getEventStart((b.incoming || b.current)!).getTime();
+    return aTime - bTime;
+  });
+};
+
+// A calendar file is never the whole trip, so events only on this device aren't up for
+// review, they're kept as they are
+export const diffCalendarEvents = (current: TravelEvent[], incoming: TravelEvent[]) => {
+  const entries = diffEvents(current, incoming);
+  return {
+    entries: entries.filter(e => e.kind !== 'removed'),
+    kept: entries.flatMap(e => (e.kind === 'removed' && e.current ? [e.current] : []))
+  };
+};
+
+// New events are added and local-only events kept unless the user says otherwise
+export const getDefaultChoice = (entry: MergeEntry): MergeChoice =>
+  entry.kind === 'removed' ? 'current' : 'incoming';
+
+export const applyMerge = (entries: MergeEntry[], choices: { [key: string]: MergeChoice }): TravelEvent[] => {
+  const result: TravelEvent[] = [];
+  entries.forEach(entry => {
+    const choice = entry.kind === 'unchanged' ? 'current' : choices[entry.key] || getDefaultChoice(entry);
+    const picked = choice === 'current' ? entry.current : entry.incoming;
+    if (!picked) return;
+    // Keep the local id for matched events so nothing else pointing at it breaks
+    result.push(entry.current && picked === entry.incoming ? { ...picked, id: entry.current.id } : picked);
+  });
+  return result;
+};
+
+// --- Files ---
+//
+// Tickets and photos live outside the trip records, so a backup only carries them when
+// asked to, base64 encoded.
+
+export const toBackupFile = async (file: StoredFile): Promise<BackupFile> => ({
+  id: file.id,
+  name: file.name,
+  type: file.blob.type,
+  data: toBase64(new Uint8Array(await file.blob.arrayBuffer()))
+});
+
+export const fromBackupFile = (file: BackupFile, tripId: string): StoredFile => ({
+  id: file.id,
+  tripId,
+  name: file.name,
+  blob: new Blob([fromBase64(file.data)], { type: file.type })
+});
+
+// --- Encryption ---
+//
+// Encrypted backups wrap the plaintext backup JSON in an envelope:
+// PBKDF2 (SHA-256) derives an AES-GCM key from the passphrase; salt and iv are random per file.
+
+const PBKDF2_ITERATIONS = 310000;
+
+interface EncryptedBackup {
+  app: 'euro-travel-pocket';
+  encrypted: true;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+  cipher: { name: 'AES-GCM'; iv: string };
+  data: string;
+}
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  // Chunked so large backups don't overflow the argument list
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number) => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const parseEnvelope = (text: string): EncryptedBackup | null => {
+  try {
+    const data = JSON.parse(cleanText(text));
+    return isObject(data) && data.encrypted === true && typeof data.data === 'string' ? data as unknown as EncryptedBackup : null;
+  } catch {
+    return null;
+  }
+};
+
+export const isEncryptedBackup = (text: string) => parseEnvelope(text) !== null;
+
+export const encryptBackup = async (plaintext: string, passphrase: string): Promise<string> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext));
+
+  const envelope: EncryptedBackup = {
+    app: 'euro-travel-pocket',
+    encrypted: true,
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt: toBase64(salt) },
+    cipher: { name: 'AES-GCM', iv: toBase64(iv) },
+    data: toBase64(new Uint8Array(ciphertext))
+  };
+  return JSON.stringify(envelope, null, 2);
+};
+
+export const decryptBackup = async (text: string, passphrase: string): Promise<string> => {
+  const envelope = parseEnvelope(text);
+  if (!envelope) throw new Error("This backup is not encrypted.");
+  if (envelope.kdf?.name !== 'PBKDF2' || envelope.cipher?.name !== 'AES-GCM') {
+    throw new Error("This backup uses an unsupported encryption format.");
+  }
+
+  try {
+    const key = await deriveKey(passphrase, fromBase64(envelope.kdf.salt), envelope.kdf.iterations);
+    const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(envelope.cipher.iv) }, key, fromBase64(envelope.data));
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    // AES-GCM can't tell a wrong passphrase from a damaged file
+    throw new Error("Wrong passphrase, or the file is damaged.");
+  }
+};
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { boardingPassToEvent, parseBoardingPass, type BoardingPass } from './boardingPass';
+import type { TravelEvent } from './types';
+import vectorsJson from '../fixtures/boarding-pass/vectors.json?raw';
+
+interface Vector {
+  name: string;
+  barcode: string;
+  today: string;
+  pass: BoardingPass | null;
+  event: Partial<TravelEvent> | null;
+}
+
+const vectors: Vector[] = JSON.parse(vectorsJson);
+
+// Leg ids are random, so they're left out of the expected drafts
+const withoutLegIds = (event: Partial<TravelEvent>) =>
+  event.legs ? { ...event, legs: event.legs.map(leg => Object.fromEntries(Object.entries(leg).filter(([key]) => key !== 'id'))) } : event;
+
+describe('parseBoardingPass', () => {
+  vectors.forEach(vector => {
+    it(`reads ${vector.name}`, () => {
+      const pass = parseBoardingPass(vector.barcode);
+      expect(pass).toEqual(vector.pass);
+      if (!pass) return;
+      const event = boardingPassToEvent(pass, '00:00', new Date(`${vector.today}T12:00:00`));
+      expect(JSON.parse(JSON.stringify(withoutLegIds(event)))).toEqual(vector.event);
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import type { TransportLeg, TravelEvent } from './types';
+import { toLocalISOString } from './time';
+
+// --- Boarding Passes ---
+//
+// Reads the IATA Bar Coded Boarding Pass (BCBP, Resolution 792) text that airlines put
+// in the PDF417, Aztec or QR code of a boarding pass. Only the mandatory items are
+// needed to fill in a flight; the optional ones are skipped by their declared sizes,
+// apart from the issue date, which tells the year the barcode itself leaves out.
+//
+// Sample barcodes and the drafts they should produce live in fixtures/boarding-pass and
+// are checked by boardingPass.test.ts.
+
+export interface BoardingPassLeg {
+  pnr: string; // booking reference
+  from: string; // IATA airport code
+  to: string;
+  carrier: string; // airline designator, 'LH'
+  flightNumber: string; // without leading zeros, '400' or '123A'
+  dayOfYear: number; // 1-366; the barcode has no year
+  compartment: string; // 'Y', 'C', 'F'...
+  seat?: string; // '12A'; missing before seats are given
+}
+
+export interface BoardingPass {
+  passenger: string;
+  legs: BoardingPassLeg[];
+  // Last digit of the year and day it was issued, when the barcode has it
+  issued?: { yearDigit: number; dayOfYear: number };
+}
+
+// Everything from the booking reference to the size of the leg's optional items
+const LEG_LENGTH = 37;
+const HEADER_LENGTH = 23;
+
+const TITLES = new Set(['MR', 'MRS', 'MS', 'MISS', 'MSTR', 'DR']);
+
+const titleCase = (word: string) => word.charAt(0) + word.slice(1).toLowerCase();
+
+// "DESMARAIS/LUC MR" → "Luc Desmarais"
+const formatName = (raw: string) => {
+  const [surname, given = ''] = raw.trim().split('/');
+  const givenNames = given.split(/\s+/).filter(w => w && !TITLES.has(w));
+  return [...givenNames, ...surname.split(/\s+/)].filter(Boolean).map(w => w.split('-').map(titleCase).join('-')).join(' ');
+};
+
+const readLeg = (text: string): BoardingPassLeg | null => {
+  const from = text.slice(7, 10);
+  const to = text.slice(10, 13);
+  const carrier = text.slice(13, 16).trim();
+  const flightNumber = text.slice(16, 21).trim().replace(/^0+(?=\d)/, '');
+  const dayOfYear = Number(text.slice(21, 24));
+  const seat = text.slice(25, 29).trim().replace(/^0+(?=\d)/, '');
+  if (!/^[A-Z]{3}$/.test(from) || !/^[A-Z]{3}$/.test(to)) return null;
+  if (!/^[A-Z0-9]{2,3}$/.test(carrier) || !/^\d{1,4}[A-Z]?$/.test(flightNumber)) return null;
+  if (!Number.isInteger(dayOfYear) || dayOfYear < 1 || dayOfYear > 366) return null;
+  return {
+    pnr: text.slice(0, 7).trim(),
+    from,
+    to,
+    carrier,
+    flightNumber,
+    dayOfYear,
+    compartment: text.slice(24, 25).trim(),
+    seat: /^\d{1,3}[A-Z]$/.test(seat) ? seat : undefined
+  };
+};
+
+// In the first leg's optional items: '>', version, size of the unique items, then
+// passenger description, check-in source, issuing source and the issue date
+const readIssued = (optional: string): BoardingPass['issued'] => {
+  if (optional[0] !== '>' || parseInt(optional.slice(2, 4), 16) < 7) return undefined;
+  const issued = optional.slice(7, 11);
+  if (!/^\d{4}$/.test(issued) || +issued.slice(1) < 1 || +issued.slice(1) > 366) return undefined;
+  return { yearDigit: +issued[0], dayOfYear: +issued.slice(1) };
+};
+
+// Null for anything that isn't a boarding pass, like a rail ticket's QR code
+export const parseBoardingPass = (data: string): BoardingPass | null => {
+  const text = data.replace(/[\r\n]+$/, '');
+  if (!/^M[1-9]/.test(text)) return null;
+  const legCount = Number(text[1]);
+
+  const legs: BoardingPassLeg[] = [];
+  let issued: BoardingPass['issued'];
+  let pos = HEADER_LENGTH;
+  for (let i = 0; i < legCount; i++) {
+    // Scanners can drop trailing spaces, which leaves the size of the last leg's optional items blank
+    const mandatory = text.slice(pos, pos + LEG_LENGTH).padEnd(LEG_LENGTH);
+    const leg = readLeg(mandatory);
+    if (!leg) return null;
+    const size = parseInt(mandatory.slice(35, 37), 16) || 0;
+    if (i === 0) issued = readIssued(text.slice(pos + LEG_LENGTH, pos + LEG_LENGTH + size));
+    legs.push(leg);
+    pos += LEG_LENGTH + size;
+  }
+
+  return { passenger: formatName(text.slice(2, 22)), legs, issued };
+};
+
+const fromDayOfYear = (year: number, dayOfYear: number) =>
+  new Date(Date.UTC(year, 0, dayOfYear)).toISOString().slice(0, 10);
+
+// The issue date pins the year down: the last year ending in its digit, with flights on
+// or after it. Without one, whichever year puts the flight closest to today.
+export const getFlightDate = (pass: BoardingPass, leg: BoardingPassLeg, today = new Date()) => {
+  const todayIso = toLocalISOString(today).slice(0, 10);
+  const thisYear = Number(todayIso.slice(0, 4));
+  if (pass.issued) {
+    const { yearDigit, dayOfYear } = pass.issued;
+    let issueYear = thisYear - ((thisYear - yearDigit + 10) % 10);
+    if (fromDayOfYear(issueYear, dayOfYear) > todayIso) issueYear -= 10;
+    return fromDayOfYear(leg.dayOfYear >= dayOfYear ? issueYear : issueYear + 1, leg.dayOfYear);
+  }
+  const distance = (date: string) => Math.abs(Date.parse(date) - Date.parse(todayIso));
+  return [thisYear - 1, thisYear, thisYear + 1]
+    .map(year => fromDayOfYear(year, leg.dayOfYear))
+    .reduce((best, date) => (distance(date) < distance(best) ? date : best));
+};
+
+// The barcode has no times, so every departure gets `time` until it's filled in.
+// Several legs become a journey, each with its own seat.
+export const boardingPassToEvent = (pass: BoardingPass, time = '00:00', today = new Date()): Partial<TravelEvent> => {
+  const [first] = pass.legs;
+  const flights = [...new Set(pass.legs.map(l => `${l.carrier} ${l.flightNumber}`))];
+  const route = [first.from, ...pass.legs.map(l => l.to)].join(' → ');
+  const pnrs = [...new Set(pass.legs.map(l => l.pnr).filter(Boolean))];
+  const legs: TransportLeg[] | undefined = pass.legs.length > 1
+    ? pass.legs.map(l => ({
+        id: crypto.randomUUID(),
+        mode: 'flight',
+        carrier: l.carrier,
+        number: `${l.carrier} ${l.flightNumber}`,
+        from: l.from,
+        to: l.to,
+        departureTime: `${getFlightDate(pass, l, today)}T${time}`,
+        arrivalTime: '',
+        seat: l.seat
+      }))
+    : undefined;
+
+  return {
+    type: 'transport',
+    transportMode: 'flight',
+    title: `${flights.join(' / ')} ${route}`,
+    location: first.from,
+    startTime: `${getFlightDate(pass, first, today)}T${time}`,
+    seatInfo: !legs && first.seat ? `Seat ${first.seat}` : undefined,
+    legs,
+    notes: [
+      pass.passenger && `Passenger: ${pass.passenger}`,
+      pnrs.length > 0 && `Booking reference: ${pnrs.join(', ')}`
+    ].filter(Boolean).join('\n')
+  };
+};
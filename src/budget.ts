@@ -0,0 +1,75 @@
+import type { Budget, EventType, ExpenseSummary, Trip } from './types';
+import { addDays } from './lodging';
+
+// --- Budgets ---
+//
+// Limits are checked against the same actual spending the Wallet shows: what was
+// paid, or the plan until a payment is recorded, in the home currency.
+
+export type BudgetScope = 'total' | 'day' | 'type';
+
+export interface BudgetOverrun {
+  scope: BudgetScope;
+  key: string; // the yyyy-MM-dd date or event type; empty for the trip total
+  limit: number;
+  spent: number;
+}
+
+// Less than this over a limit is rounding, not overspending
+const TOLERANCE = 0.005;
+
+const isLimit = (limit?: number): limit is number => limit !== undefined && limit > 0;
+
+export const hasBudget = (budget?: Budget): budget is Budget =>
+  !!budget && (isLimit(budget.total) || isLimit(budget.perDay) || Object.values(budget.byType || {}).some(isLimit));
+
+export const getOverruns = (budget: Budget | undefined, summary: ExpenseSummary): BudgetOverrun[] => {
+  if (!budget) return [];
+  const overruns: BudgetOverrun[] = [];
+  const check = (scope: BudgetScope, key: string, limit: number | undefined, spent: number) => {
+    if (isLimit(limit) && spent > limit + TOLERANCE) overruns.push({ scope, key, limit, spent });
+  };
+
+  check('total', '', budget.total, summary.total);
+  Object.entries(summary.byDate).forEach(([date, totals]) => check('day', date, budget.perDay, totals.actual));
+  Object.entries(budget.byType || {}).forEach(([type, limit]) => {
+    check('type', type, limit, summary.byCategory[type as EventType]?.actual || 0);
+  });
+  return overruns;
+};
+
+// The limits a change takes spending over, or further over than it already was
+export const getNewOverruns = (budget: Budget | undefined, before: ExpenseSummary, after: ExpenseSummary): BudgetOverrun[] => {
+  const previous = getOverruns(budget, before);
+  return getOverruns(budget, after).filter(overrun => {
+    const was = previous.find(p => p.scope === overrun.scope && p.key === overrun.key);
+    return !was || overrun.spent > was.spent + TOLERANCE;
+  });
+};
+
+// What's left of the total, spread over the trip's days from today on. Null without
+// a total, without an end date, or once the trip is over.
+export const getDailyAllowance = (
+  budget: Budget | undefined,
+  summary: ExpenseSummary,
+  trip: Pick<Trip, 'startDate' | 'endDate'>,
+  today: string
+): { remaining: number; days: number; perDay: number } | null => {
+  if (!isLimit(budget?.total) || !trip.endDate || today > trip.endDate) return null;
+  const from = trip.startDate > today ? trip.startDate : today;
+  let days = 0;
+  for (let date = from; date <= trip.endDate; date = addDays(date, 1)) days++;
+  const remaining = budget.total - summary.total;
+  return { remaining, days, perDay: Math.max(0, remaining) / days };
+};
+
+// Limits to another home currency; `rate` is old home-currency units per new one
+export const convertBudget = (budget: Budget | undefined, rate: number): Budget | undefined => {
+  if (!budget) return budget;
+  const convert = (limit?: number) => limit === undefined ? undefined : Math.round(limit / rate * 100) / 100;
+  return {
+    total: convert(budget.total),
+    perDay: convert(budget.perDay),
+    byType: budget.byType && Object.fromEntries(Object.entries(budget.byType).map(([type, limit]) => [type, convert(limit)]))
+  };
+};
@@ -0,0 +1,67 @@
+import type { CashEntry, Expense, TravelEvent, Trip } from './types';
+import { toLocalISOString } from './time';
+import { getActualCost, getPaymentMethod } from './expenses';
+
+// --- Cash on Hand ---
+//
+// Cash comes in through logged withdrawals and exchanges and goes out through cash
+// expenses and events paid in cash. An event paid in cash counts once it's marked
+// paid or its day has come; until then it's part of what the cash still has to cover.
+
+export interface CashPosition {
+  received: number;
+  spent: number;
+  balance: number;
+  upcoming: number; // still to pay in cash for events ahead
+  upcomingEvents: TravelEvent[];
+}
+
+const getPosition = (positions: { [currency: string]: CashPosition }, currency: string) =>
+  (positions[currency] ??= { received: 0, spent: 0, balance: 0, upcoming: 0, upcomingEvents: [] });
+
+export const getCashOnHand = (
+  entries: CashEntry[],
+  events: TravelEvent[],
+  expenses: Expense[],
+  today = toLocalISOString(new Date()).slice(0, 10)
+): { [currency: string]: CashPosition } => {
+  const positions: { [currency: string]: CashPosition } = {};
+
+  entries.forEach(entry => {
+    getPosition(positions, entry.currency).received += entry.amount;
+    if (entry.fromCurrency && entry.fromAmount) getPosition(positions, entry.fromCurrency).spent += entry.fromAmount;
+  });
+
+  expenses.forEach(x => {
+    if (x.paymentMethod === 'cash' && x.amount) getPosition(positions, x.currency).spent += x.amount;
+  });
+
+  events.forEach(e => {
+    const amount = getActualCost(e);
+    if (getPaymentMethod(e) !== 'cash' || !amount) return;
+    const position = getPosition(positions, e.currency);
+    if (e.paymentStatus === 'paid' || e.startTime.slice(0, 10) <= today) {
+      position.spent += amount;
+    } else {
+      position.upcoming += amount;
+      position.upcomingEvents.push(e);
+    }
+  });
+
+  Object.values(positions).forEach(position => {
+    position.balance = position.received - position.spent;
+    position.upcomingEvents.sort((a, b) => a.startTime.localeCompare(b.startTime));
+  });
+  return positions;
+};
+
+// Defaults to the local currency of the trip's most recent cash, else the home currency
+export const createCashEntry = (trip: Pick<Trip, 'homeCurrency' | 'cash'>): CashEntry => {
+  const last = trip.cash?.[trip.cash.length - 1];
+  return {
+    id: crypto.randomUUID(),
+    date: toLocalISOString(new Date()).slice(0, 10),
+    amount: 0,
+    currency: last?.currency || trip.homeCurrency
+  };
+};
@@ -0,0 +1,75 @@
+// --- Currencies ---
+//
+// Each trip stores its rates as home-currency units per 1 unit of a currency, so the
+// home currency itself is always 1. Amounts are formatted with each currency's own
+// minor units (no decimals for JPY or KRW, three for KWD).
+
+export type Rates = { [currency: string]: number };
+
+const formatters = new Map<string, Intl.NumberFormat | null>();
+
+// Null for codes Intl doesn't accept
+const getFormatter = (currency: string, whole: boolean) => {
+  const key = `${currency}:${whole}`;
+  if (!formatters.has(key)) {
+    try {
+      formatters.set(key, new Intl.NumberFormat(undefined, {
+        style: 'currency',
+        currency,
+        ...(whole ? { minimumFractionDigits: 0, maximumFractionDigits: 0 } : {})
+      }));
+    } catch {
+      formatters.set(key, null);
+    }
+  }
+  return formatters.get(key)!;
+};
+
+// Digits after the decimal point: 2 for EUR, 0 for JPY
+export const getMinorUnits = (currency: string) =>
+  getFormatter(currency, false)?.resolvedOptions().maximumFractionDigits ?? 2;
+
+// "€12.50", "¥1,200"; `whole` rounds to whole units for totals
+export const formatMoney = (amount: number, currency: string, options: { whole?: boolean } = {}) => {
+  const formatter = getFormatter(currency, !!options.whole);
+  return formatter ? formatter.format(amount) : `${amount.toFixed(options.whole ? 0 : getMinorUnits(currency))} ${currency}`;
+};
+
+// Just the number, for places that show the code next to it: "1,200" for JPY, "12.50" for EUR
+export const formatAmount = (amount: number, currency: string) => {
+  const digits = getMinorUnits(currency);
+  return amount.toLocaleString(undefined, { minimumFractionDigits: digits, maximumFractionDigits: digits });
+};
+
+const FALLBACK_CODES = ['AUD', 'CAD', 'CHF', 'CNY', 'CZK', 'DKK', 'EUR', 'GBP', 'HKD', 'HUF', 'JPY', 'KRW', 'NOK', 'NZD', 'PLN', 'SEK', 'SGD', 'TWD', 'USD'];
+
+// Every ISO 4217 code the browser knows
+export const CURRENCY_CODES: string[] = typeof Intl.supportedValuesOf === 'function'
+  ? Intl.supportedValuesOf('currency')
+  : FALLBACK_CODES;
+
+const displayNames = typeof Intl.DisplayNames === 'function' ? new Intl.DisplayNames(undefined, { type: 'currency' }) : null;
+
+// "Euro" for EUR; the code itself when the browser has no name for it
+export const getCurrencyName = (currency: string) => {
+  try {
+    return displayNames?.of(currency) || currency;
+  } catch {
+    return currency;
+  }
+};
+
+// Re-expresses rates against another home currency through cross-rates, to 6 significant
+// digits. Null when there's no rate for the new home currency to convert through.
+export const convertRates = (rates: Rates, from: string, to: string): Rates | null => {
+  if (from === to) return rates;
+  const pivot = rates[to];
+  if (!pivot) return null;
+  const converted: Rates = {};
+  Object.entries(rates).forEach(([currency, rate]) => {
+    converted[currency] = Number((rate / pivot).toPrecision(6));
+  });
+  converted[from] = Number((1 / pivot).toPrecision(6));
+  converted[to] = 1;
+  return converted;
+};
@@ -0,0 +1,106 @@
+import type { CostSplit, Expense, ExpenseCategory, ExpenseSummary, RateHistory, SpendTotals, TravelEvent, Trip } from './types';
+import { toLocalISOString } from './time';
+import type { Rates } from './currency';
+import { getCostByDate } from './lodging';
+import { createRateLookup } from './rates';
+import { getSplitAmounts } from './split';
+
+// --- Expenses ---
+//
+// `cost` is what an event was planned to cost and `actualCost` what was really paid.
+// Until a payment is recorded the plan stands in for it, so totals stay the best
+// current estimate and variance only shows up where something was actually paid.
+// Quick expenses were never planned, so all of each one counts as over the plan.
+
+type RateLookup = ReturnType<typeof createRateLookup>;
+
+export const CATEGORY_LABELS: { [category in ExpenseCategory]: string } = {
+  activity: 'Activities',
+  transport: 'Transport',
+  dining: 'Dining',
+  lodging: 'Stays',
+  shopping: 'Shopping',
+  other: 'Other'
+};
+
+export const getActualCost = (event: TravelEvent) => event.actualCost ?? event.cost;
+
+// A cash-only place is paid in cash even when nobody said so
+export const getPaymentMethod = (event: TravelEvent) => event.paymentMethod ?? (event.isCashOnly ? 'cash' : undefined);
+
+// Planned and actual amounts per yyyy-MM-dd in the home currency. The actual amount
+// converts at the rate the card charged when it's known, else at the day's rate.
+export const getEventSpend = (event: TravelEvent, getRate: RateLookup): { [date: string]: SpendTotals } => {
+  const spend: { [date: string]: SpendTotals } = {};
+  const cardRate = event.paymentMethod === 'card' ? event.cardRate : undefined;
+  getCostByDate(event).forEach(({ date, amount }) => {
+    spend[date] = { planned: amount * getRate(event.currency, date), actual: 0 };
+  });
+  getCostByDate(event, getActualCost(event)).forEach(({ date, amount }) => {
+    spend[date] = { planned: spend[date]?.planned || 0, actual: amount * (cardRate || getRate(event.currency, date)) };
+  });
+  return spend;
+};
+
+// The payer is credited with the whole cost and everyone sharing it charged their part
+const addSplit = (summary: ExpenseSummary, split: CostSplit | undefined, amount: number) => {
+  if (!split?.paidBy || !amount) return;
+  const byTraveler = summary.byTraveler;
+  const entry = (name: string) => (byTraveler[name] ??= { paid: 0, owed: 0 });
+  entry(split.paidBy).paid += amount;
+  Object.entries(getSplitAmounts(split, amount)).forEach(([name, owed]) => {
+    entry(name).owed += owed;
+  });
+};
+
+const addSpend = (totals: SpendTotals = { planned: 0, actual: 0 }, spend: SpendTotals): SpendTotals => ({
+  planned: totals.planned + spend.planned,
+  actual: totals.actual + spend.actual
+});
+
+// Each day's share converts at that day's rate, so a spread stay follows the rate night by night
+export const summarizeExpenses = (events: TravelEvent[], rates: Rates, history?: RateHistory, expenses: Expense[] = []): ExpenseSummary => {
+  const getRate = createRateLookup(rates, history);
+  const summary: ExpenseSummary = { total: 0, planned: 0, details: {}, byDate: {}, byCategory: {}, byTraveler: {} };
+
+  events.forEach(e => {
+    const paid = getActualCost(e);
+    if (!e.cost && !paid) return;
+    summary.details[e.currency] = (summary.details[e.currency] || 0) + paid;
+    let actual = 0;
+    Object.entries(getEventSpend(e, getRate)).forEach(([date, spend]) => {
+      actual += spend.actual;
+      summary.total += spend.actual;
+      summary.planned += spend.planned;
+      summary.byDate[date] = addSpend(summary.byDate[date], spend);
+      summary.byCategory[e.type] = addSpend(summary.byCategory[e.type], spend);
+    });
+    addSplit(summary, e.split, actual);
+  });
+
+  expenses.forEach(x => {
+    if (!x.amount) return;
+    const spend = { planned: 0, actual: x.amount * getRate(x.currency, x.date) };
+    summary.details[x.currency] = (summary.details[x.currency] || 0) + x.amount;
+    summary.total += spend.actual;
+    summary.byDate[x.date] = addSpend(summary.byDate[x.date], spend);
+    summary.byCategory[x.category] = addSpend(summary.byCategory[x.category], spend);
+    addSplit(summary, x.split, spend.actual);
+  });
+
+  return summary;
+};
+
+// A new quick expense: today when that's within the trip, else the trip's first day
+export const createExpense = (trip: Pick<Trip, 'startDate' | 'endDate' | 'homeCurrency'>, currency = trip.homeCurrency): Expense => {
+  const today = toLocalISOString(new Date()).slice(0, 10);
+  const inTrip = (!trip.startDate || today >= trip.startDate) && (!trip.endDate || today <= trip.endDate);
+  return {
+    id: crypto.randomUUID(),
+    title: '',
+    amount: 0,
+    currency,
+    category: 'dining',
+    date: inTrip || !trip.startDate ? today : trip.startDate
+  };
+};
@@ -0,0 +1,99 @@
+import type { DecodeHintType as HintType } from '@zxing/library';
+
+// --- Device Files ---
+//
+// Photos and documents live in the storage backend's file store, outside the trip
+// records, so syncing a trip never rewrites them.
+
+const MAX_PHOTO_SIDE = 1600;
+const PHOTO_QUALITY = 0.8;
+
+// Phone photos run to several MB; a receipt stays readable at a fraction of that.
+// Anything the browser can't decode (HEIC in some) is kept as it is.
+export const shrinkPhoto = async (file: Blob): Promise<Blob> => {
+  try {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, MAX_PHOTO_SIDE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    const photo = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', PHOTO_QUALITY));
+    return photo && photo.size < file.size ? photo : file;
+  } catch {
+    return file;
+  }
+};
+
+// --- Barcodes ---
+//
+// Read on the device: by the browser's BarcodeDetector where there is one (Chrome,
+// Android), otherwise by ZXing's JavaScript decoder (Safari, Firefox), which is only
+// loaded the first time a ticket needs it.
+
+type DetectorClass = {
+  new (options: { formats: string[] }): { detect: (image: ImageBitmapSource) => Promise<{ rawValue: string }[]> };
+  getSupportedFormats: () => Promise<string[]>;
+};
+
+// Boarding passes use PDF417 or Aztec, some airlines and most rail tickets QR codes
+const TICKET_FORMATS = ['pdf417', 'aztec', 'qr_code'];
+
+// PDF417 needs its thin bars kept; larger screenshots are scaled down to this
+const MAX_SCAN_SIDE = 2000;
+
+const detectNatively = async (file: Blob): Promise<string[]> => {
+  const Detector = (window as unknown as { BarcodeDetector?: DetectorClass }).BarcodeDetector;
+  if (!Detector) return [];
+  const supported = await Detector.getSupportedFormats();
+  const formats = TICKET_FORMATS.filter(f => supported.includes(f));
+  if (formats.length === 0) return [];
+  const bitmap = await createImageBitmap(file);
+  const codes = await new Detector({ formats }).detect(bitmap);
+  bitmap.close();
+  return codes.map(c => c.rawValue);
+};
+
+const detectWithZxing = async (file: Blob): Promise<string[]> => {
+  const { BarcodeFormat, BinaryBitmap, DecodeHintType, HybridBinarizer, MultiFormatReader, RGBLuminanceSource } = await import('@zxing/library');
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, MAX_SCAN_SIDE / Math.max(bitmap.width, bitmap.height));
+  const width = Math.round(bitmap.width * scale);
+  const height = Math.round(bitmap.height * scale);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d')!;
+  context.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  const { data } = context.getImageData(0, 0, width, height);
+  const luminances = new Uint8ClampedArray(width * height);
+  for (let i = 0; i < luminances.length; i++) {
+    luminances[i] = (data[i * 4] + 2 * data[i * 4 + 1] + data[i * 4 + 2]) / 4;
+  }
+  const reader = new MultiFormatReader();
+  reader.setHints(new Map<HintType, unknown>([
+    [DecodeHintType.POSSIBLE_FORMATS, [BarcodeFormat.PDF_417, BarcodeFormat.AZTEC, BarcodeFormat.QR_CODE]],
+    [DecodeHintType.TRY_HARDER, true]
+  ]));
+  try {
+    return [reader.decode(new BinaryBitmap(new HybridBinarizer(new RGBLuminanceSource(luminances, width, height)))).getText()];
+  } catch {
+    // No barcode found, or one too damaged to read
+    return [];
+  }
+};
+
+// Null when the image couldn't be scanned at all, e.g. the decoder didn't load offline
+export const readBarcodes = async (file: Blob): Promise<string[] | null> => {
+  if (!file.type.startsWith('image/')) return [];
+  try {
+    const codes = await detectNatively(file).catch(() => []);
+    return codes.length > 0 ? codes : await detectWithZxing(file);
+  } catch (e) {
+    console.error("Barcode scan failed", e);
+    return null;
+  }
+};
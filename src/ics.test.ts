@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { buildCalendar, parseCalendar } from './ics';
+import { validateEventList } from './validation';
+import type { TravelEvent } from './types';
+
+const base = { notes: '', isCashOnly: false, cost: 0, currency: 'EUR' };
+
+const EVENTS: TravelEvent[] = [
+  {
+    ...base,
+    id: 'flight',
+    title: 'LH 400 FRA → JFK',
+    location: 'FRA',
+    startTime: '2026-06-01T10:05',
+    endTime: '2026-06-01T12:45',
+    timeZone: 'Europe/Berlin',
+    endTimeZone: 'America/New_York',
+    type: 'transport',
+    transportMode: 'flight',
+    seatInfo: 'Seat 12A',
+    cost: 640.5,
+    paymentStatus: 'paid',
+    paymentMethod: 'card',
+    cardRate: 1.0832
+  },
+  {
+    ...base,
+    id: 'hotel',
+    title: 'Hotel Adlon, Berlin',
+    location: 'Berlin',
+    startTime: '2026-06-03T15:00',
+    endTime: '2026-06-05T11:00',
+    timeZone: 'Europe/Berlin',
+    type: 'lodging',
+    notes: 'Late check-in; ask for a quiet room.\nBreakfast included',
+    address: 'Unter den Linden 77, 10117 Berlin',
+    confirmationCode: 'ADL-2291',
+    cost: 420,
+    costPerNight: 210,
+    spreadCost: true
+  },
+  {
+    ...base,
+    id: 'museum',
+    title: 'Pergamon Museum',
+    location: 'Museumsinsel',
+    // No zone: floating device time has to come back as the same wall clock
+    startTime: '2026-06-04T09:30',
+    endTime: '2026-06-04T12:00',
+    type: 'activity',
+    isCashOnly: true,
+    cost: 19,
+    currency: 'EUR'
+  },
+  {
+    ...base,
+    id: 'train',
+    title: 'Berlin → Prague',
+    location: 'Berlin Hbf',
+    startTime: '2026-06-05T12:37',
+    endTime: '2026-06-05T17:02',
+    timeZone: 'Europe/Berlin',
+    type: 'transport',
+    transportMode: 'train',
+    legs: [
+      { id: 'leg-1', mode: 'train', carrier: 'DB', number: 'EC 177', from: 'Berlin Hbf', to: 'Dresden Hbf', departureTime: '2026-06-05T12:37', arrivalTime: '2026-06-05T14:46', seat: '54' },
+      { id: 'leg-2', mode: 'train', carrier: 'CD', number: 'EC 177', from: 'Dresden Hbf', to: 'Praha hl.n.', departureTime: '2026-06-05T14:52', arrivalTime: '2026-06-05T17:02' }
+    ]
+  }
+];
+
+// The parser sets every field it knows about, left empty when the event doesn't have it
+const withoutEmpty = (event: TravelEvent) =>
+  Object.fromEntries(Object.entries(event).filter(([, value]) => value !== undefined && value !== ''));
+
+describe('buildCalendar → parseCalendar', () => {
+  it('brings our own events back unchanged', () => {
+    const { events: raw, skipped } = parseCalendar(buildCalendar(EVENTS));
+    const { events, report } = validateEventList(raw);
+
+    expect(skipped).toBe(0);
+    expect(report.rejected).toEqual([]);
+    expect(events.map(withoutEmpty)).toEqual(EVENTS.map(withoutEmpty));
+  });
+
+  it('gives events without an end time an hour', () => {
+    const [event] = parseCalendar(buildCalendar([{ ...EVENTS[2], endTime: '' }])).events;
+    expect(event.endTime).toBe('2026-06-04T10:30');
+  });
+});
@@ -0,0 +1,318 @@
+import type { EventType, TransportLeg, TravelEvent } from './types';
+import { EVENT_TYPES } from './validation';
+import { getEventStart, getEventEnd, isValidTimeZone, toLocalISOString, toWallTime } from './time';
+
+// --- iCalendar (RFC 5545) ---
+
+const PRODID = '-//EuroTravel Pocket//Itinerary//EN';
+const UID_DOMAIN = 'euro-travel-pocket';
+// Everything after this line in DESCRIPTION is generated and stripped again on import
+const DETAILS_SEPARATOR = '\n\n---\n';
+
+// --- Writing ---
+
+const escapeText = (value: string) => value
+  .replace(/\\/g, '\\\\')
+  .replace(/;/g, '\\;')
+  .replace(/,/g, '\\,')
+  .replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 octets are folded with CRLF + space, never splitting a UTF-8 character
+const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let current = '';
+  let bytes = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines lose one octet to the leading space
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (bytes + size > limit) {
+      chunks.push(current);
+      current = '';
+      bytes = 0;
+    }
+    current += char;
+    bytes += size;
+  }
+  chunks.push(current);
+  return chunks.join('\r\n ');
+};
+
+const formatUtc = (date: Date) => date.toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
+
+export const getEventUid = (event: TravelEvent) => `${event.id}@${UID_DOMAIN}`;
+
+// Events without an end time show up as one hour long
+const getCalendarEnd = (event: TravelEvent) =>
+  getEventEnd(event) || new Date(getEventStart(event).getTime() + 60 * 60 * 1000);
+
+const describeLeg = (leg: TransportLeg, index: number) => {
+  const service = [leg.carrier, leg.number].filter(Boolean).join(' ');
+  const seat = leg.seat ? `, seat ${leg.seat}` : '';
+  return `Leg ${index + 1}: ${service ? `${service} ` : ''}${leg.from} ${leg.departureTime.slice(11, 16)} → ${leg.to} ${leg.arrivalTime.slice(11, 16)}${seat}`;
+};
+
+const buildDescription = (event: TravelEvent) => {
+  const details = [
+    ...(event.legs || []).map(describeLeg),
+    event.address && `Address: ${event.address}`,
+    event.confirmationCode && `Confirmation: ${event.confirmationCode}`,
+    event.seatInfo && `Seat: ${event.seatInfo}`,
+    event.platform && `Platform: ${event.platform}`,
+    event.transferInfo && `Transfer: ${event.transferInfo}`,
+    event.ticketFileRef && `Ticket: ${event.ticketFileRef}`,
+    event.cost > 0 && `Cost: ${event.cost} ${event.currency}${event.isCashOnly ? ' (cash only)' : ''}`
+  ].filter(Boolean);
+  const footer = [...details, 'Generated by EuroTravel Pocket'].join('\n');
+  return event.notes ? `${event.notes}${DETAILS_SEPARATOR}${footer}` : `${DETAILS_SEPARATOR.trimStart()}${footer}`;
+};
+
+const buildEvent = (event: TravelEvent, stamp: string) => {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${getEventUid(event)}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${formatUtc(getEventStart(event))}`,
+    `DTEND:${formatUtc(getCalendarEnd(event))}`,
+    `SUMMARY:${escapeText(event.title)}`,
+    event.location && `LOCATION:${escapeText(event.location)}`,
+    `DESCRIPTION:${escapeText(buildDescription(event))}`,
+    `CATEGORIES:${event.type.toUpperCase()}`,
+    // Private properties so our own fields survive a round trip
+    `X-EUROTRAVEL-TYPE:${event.type}`,
+    event.timeZone && `X-EUROTRAVEL-TZID:${event.timeZone}`,
+    event.endTimeZone && `X-EUROTRAVEL-END-TZID:${event.endTimeZone}`,
+    event.transportMode && `X-EUROTRAVEL-MODE:${event.transportMode}`,
+    event.legs && `X-EUROTRAVEL-LEGS:${escapeText(JSON.stringify(event.legs))}`,
+    event.seatInfo && `X-EUROTRAVEL-SEAT:${escapeText(event.seatInfo)}`,
+    event.platform && `X-EUROTRAVEL-PLATFORM:${escapeText(event.platform)}`,
+    event.ticketFileRef && `X-EUROTRAVEL-TICKET:${escapeText(event.ticketFileRef)}`,
+    event.cost > 0 && `X-EUROTRAVEL-COST:${event.cost}`,
+    `X-EUROTRAVEL-CURRENCY:${event.currency}`,
+    event.isCashOnly && 'X-EUROTRAVEL-CASH:TRUE',
+    event.actualCost !== undefined && `X-EUROTRAVEL-ACTUAL:${event.actualCost}`,
+    event.paymentStatus && `X-EUROTRAVEL-PAYMENT:${event.paymentStatus}`,
+    event.paymentMethod && `X-EUROTRAVEL-METHOD:${event.paymentMethod}`,
+    event.cardRate && `X-EUROTRAVEL-CARD-RATE:${event.cardRate}`,
+    event.split && `X-EUROTRAVEL-SPLIT:${escapeText(JSON.stringify(event.split))}`,
+    event.address && `X-EUROTRAVEL-ADDRESS:${escapeText(event.address)}`,
+    event.confirmationCode && `X-EUROTRAVEL-CONFIRMATION:${escapeText(event.confirmationCode)}`,
+    event.costPerNight && `X-EUROTRAVEL-PER-NIGHT:${event.costPerNight}`,
+    event.spreadCost && 'X-EUROTRAVEL-SPREAD:TRUE',
+    'END:VEVENT'
+  ];
+  return lines.filter((line): line is string => typeof line === 'string' && line !== '');
+};
+
+export const buildCalendar = (events: TravelEvent[], calendarName = 'Itinerary') => {
+  const stamp = formatUtc(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    ...events.flatMap(e => buildEvent(e, stamp)),
+    'END:VCALENDAR'
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+// Events starting on or between two yyyy-MM-dd dates (either may be empty)
+export const filterEventsByDate = (events: TravelEvent[], from: string, to: string) => events.filter(e => {
+  const day = e.startTime.slice(0, 10);
+  return (!from || day >= from) && (!to || day <= to);
+});
+
+// --- Reading ---
+
+interface ContentLine {
+  name: string;
+  params: { [key: string]: string };
+  value: string;
+}
+
+const unescapeText = (value: string) => value.replace(/\\([\\;,nN])/g, (_m, c: string) => (c === 'n' || c === 'N' ? '\n' : c));
+
+const parseContentLine = (line: string): ContentLine | null => {
+  // The value starts at the first colon that isn't inside a quoted parameter
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) { colon = i; break; }
+  }
+  if (colon < 0) return null;
+
+  const [name, ...rawParams] = line.slice(0, colon).split(';');
+  const params: { [key: string]: string } = {};
+  rawParams.forEach(param => {
+    const [key, ...rest] = param.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  });
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+};
+
+interface ParsedDate {
+  wallTime: string;
+  timeZone?: string;
+}
+
+// Converts DTSTART/DTEND into a wall-clock time, keeping the zone when there is one.
+// `preferredZone` turns UTC times back into that zone's wall clock (our own exports are UTC).
+const parseDateValue = (line: ContentLine, preferredZone?: string): ParsedDate | null => {
+  const match = line.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+  const [, y, mo, d, h = '00', mi = '00', s = '00', utc] = match;
+  const wallTime = `${y}-${mo}-${d}T${h}:${mi}`;
+
+  if (utc) {
+    const instant = new Date(`${wallTime}:${s}Z`);
+    if (!preferredZone) return { wallTime: toLocalISOString(instant) };
+    return { wallTime: toWallTime(instant, preferredZone), timeZone: preferredZone };
+  }
+  const tzid = line.params.TZID;
+  if (tzid && isValidTimeZone(tzid)) return { wallTime, timeZone: tzid };
+  // Floating time, all-day date, or a zone we don't know: take the wall clock as-is
+  return { wallTime };
+};
+
+const guessType = (text: string): EventType => {
+  const lower = text.toLowerCase();
+  if (/\b(flight|train|bus|coach|rail|airport|departure|boarding|ferry|eurostar|tgv|ice|frecciarossa)\b/.test(lower)) return 'transport';
+  if (/\b(hotel|hostel|check-in|check in|airbnb|apartment|lodging|stay)\b/.test(lower)) return 'lodging';
+  if (/\b(restaurant|dinner|lunch|breakfast|brunch|reservation for|table)\b/.test(lower)) return 'dining';
+  return 'activity';
+};
+
+const guessTransportMode = (text: string): TravelEvent['transportMode'] => {
+  const lower = text.toLowerCase();
+  if (/\b(flight|airport|boarding)\b/.test(lower)) return 'flight';
+  if (/\bbus\b/.test(lower)) return 'bus';
+  return 'train';
+};
+
+const toTravelEvent = (lines: ContentLine[]): Partial<TravelEvent> | null => {
+  const get = (name: string) => lines.find(l => l.name === name);
+  const text = (name: string) => {
+    const line = get(name);
+    return line ? unescapeText(line.value) : '';
+  };
+
+  const ownZone = (name: string) => {
+    const zone = text(name);
+    return zone && isValidTimeZone(zone) ? zone : undefined;
+  };
+  const start = get('DTSTART');
+  const startDate = start && parseDateValue(start, ownZone('X-EUROTRAVEL-TZID'));
+  if (!startDate) return null;
+  const end = get('DTEND');
+  const endDate = end && parseDateValue(end, ownZone('X-EUROTRAVEL-END-TZID') || ownZone('X-EUROTRAVEL-TZID'));
+
+  const uid = text('UID');
+  const title = text('SUMMARY') || 'Untitled';
+  const location = text('LOCATION');
+  let notes = text('DESCRIPTION');
+
+  const ownType = text('X-EUROTRAVEL-TYPE');
+  const isOwn = EVENT_TYPES.includes(ownType as EventType);
+  if (isOwn) {
+    const separator = notes.lastIndexOf(DETAILS_SEPARATOR.trimStart());
+    if (separator >= 0) notes = notes.slice(0, separator).trimEnd();
+  }
+
+  const type = isOwn ? ownType as EventType : guessType(`${title} ${text('CATEGORIES')}`);
+  const event: Partial<TravelEvent> = {
+    // Our own UIDs map back to the event id; foreign ones become the id so re-imports match
+    id: uid ? uid.replace(new RegExp(`@${UID_DOMAIN}$`), '') : undefined,
+    title,
+    location,
+    startTime: startDate.wallTime,
+    endTime: endDate ? endDate.wallTime : '',
+    timeZone: startDate.timeZone,
+    // Only kept when the event ends in a different zone than it starts
+    endTimeZone: endDate && endDate.timeZone !== startDate.timeZone ? endDate.timeZone : undefined,
+    type,
+    notes,
+    cost: Number(text('X-EUROTRAVEL-COST')) || 0,
+    currency: text('X-EUROTRAVEL-CURRENCY') || undefined,
+    isCashOnly: text('X-EUROTRAVEL-CASH').toUpperCase() === 'TRUE',
+    actualCost: text('X-EUROTRAVEL-ACTUAL') ? Number(text('X-EUROTRAVEL-ACTUAL')) : undefined,
+    paymentStatus: (text('X-EUROTRAVEL-PAYMENT') || undefined) as TravelEvent['paymentStatus'],
+    paymentMethod: (text('X-EUROTRAVEL-METHOD') || undefined) as TravelEvent['paymentMethod'],
+    cardRate: Number(text('X-EUROTRAVEL-CARD-RATE')) || undefined
+  };
+  const split = text('X-EUROTRAVEL-SPLIT');
+  if (split) {
+    try {
+      event.split = JSON.parse(split);
+    } catch {
+      // Left unshared; validation drops anything else that doesn't hold up
+    }
+  }
+  if (type === 'lodging') {
+    event.address = text('X-EUROTRAVEL-ADDRESS') || undefined;
+    event.confirmationCode = text('X-EUROTRAVEL-CONFIRMATION') || undefined;
+    event.costPerNight = Number(text('X-EUROTRAVEL-PER-NIGHT')) || undefined;
+    event.spreadCost = text('X-EUROTRAVEL-SPREAD').toUpperCase() === 'TRUE' || undefined;
+  }
+  if (type === 'transport') {
+    event.transportMode = (text('X-EUROTRAVEL-MODE') as TravelEvent['transportMode']) || guessTransportMode(`${title} ${notes}`);
+    event.seatInfo = text('X-EUROTRAVEL-SEAT') || undefined;
+    event.platform = text('X-EUROTRAVEL-PLATFORM') || undefined;
+    event.ticketFileRef = text('X-EUROTRAVEL-TICKET') || undefined;
+    const legs = text('X-EUROTRAVEL-LEGS');
+    if (legs) {
+      try {
+        event.legs = JSON.parse(legs);
+      } catch {
+        // A damaged legs property is ignored; the event still imports with its overall times
+      }
+    }
+  }
+  return event;
+};
+
+export interface CalendarImport {
+  // Raw event objects, meant to go through validateEventList
+  events: Partial<TravelEvent>[];
+  skipped: number;
+}
+
+export const parseCalendar = (text: string): CalendarImport => {
+  // Unfold: a CRLF followed by a space or tab continues the previous line
+  const lines = text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  if (!lines.some(l => l.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+    throw new Error("This is not an iCalendar (.ics) file.");
+  }
+
+  const events: Partial<TravelEvent>[] = [];
+  let skipped = 0;
+  let current: ContentLine[] | null = null;
+  // Nested components (VALARM) must not leak their properties into the event
+  let depth = 0;
+
+  lines.forEach(rawLine => {
+    const line = parseContentLine(rawLine.trim());
+    if (!line) return;
+    if (line.name === 'BEGIN' && line.value.toUpperCase() === 'VEVENT') {
+      current = [];
+      depth = 0;
+      return;
+    }
+    if (!current) return;
+    if (line.name === 'BEGIN') { depth++; return; }
+    if (line.name === 'END' && depth > 0) { depth--; return; }
+    if (line.name === 'END' && line.value.toUpperCase() === 'VEVENT') {
+      const event = toTravelEvent(current);
+      if (event) events.push(event); else skipped++;
+      current = null;
+      return;
+    }
+    if (depth === 0) current.push(line);
+  });
+
+  return { events, skipped };
+};
@@ -0,0 +1,98 @@
+import type { TransportLeg, TransportMode, TravelEvent } from './types';
+import { toInstant } from './time';
+import { normalizeName } from './validation';
+
+// --- Journeys ---
+//
+// A transport event with `legs` is one journey: Milan → Zurich → Paris on one card.
+// Leg times follow the event conventions (wall clock plus optional zone).
+
+// Minimum time to make a connection, by the mode of the leg being boarded
+const MIN_CONNECTION_MS: { [mode in TransportMode]: number } = {
+  train: 10 * 60 * 1000,
+  bus: 10 * 60 * 1000,
+  flight: 60 * 60 * 1000
+};
+// Extra time when the next leg leaves from somewhere else (e.g. Paris Nord → Paris Lyon)
+const STATION_CHANGE_MS = 30 * 60 * 1000;
+
+export type ConnectionRisk = 'ok' | 'tight' | 'missed';
+
+export interface Connection {
+  // Index of the leg being left; the next leg is index + 1
+  index: number;
+  station: string;
+  stationChange: boolean;
+  durationMs: number;
+  minimumMs: number;
+  risk: ConnectionRisk;
+}
+
+export const getLegDeparture = (leg: TransportLeg) => toInstant(leg.departureTime, leg.departureTimeZone);
+
+export const getLegArrival = (leg: TransportLeg) => toInstant(leg.arrivalTime, leg.arrivalTimeZone || leg.departureTimeZone);
+
+// A new leg continues from where the previous one arrived
+export const createLeg = (previous?: TransportLeg): TransportLeg => ({
+  id: crypto.randomUUID(),
+  mode: previous?.mode || 'train',
+  from: previous?.to || '',
+  to: '',
+  departureTime: previous?.arrivalTime || '',
+  arrivalTime: '',
+  departureTimeZone: previous ? previous.arrivalTimeZone || previous.departureTimeZone : undefined
+});
+
+// Turns a single-leg transport event into the first leg of a journey
+export const legFromEvent = (event: Partial<TravelEvent>): TransportLeg => ({
+  id: crypto.randomUUID(),
+  mode: event.transportMode || 'train',
+  from: event.location || '',
+  to: '',
+  departureTime: event.startTime || '',
+  arrivalTime: event.endTime || '',
+  departureTimeZone: event.timeZone,
+  arrivalTimeZone: event.endTimeZone,
+  platform: event.platform,
+  seat: event.seatInfo
+});
+
+export const getConnections = (legs: TransportLeg[]): Connection[] => legs.slice(1).flatMap((next, i) => {
+  const previous = legs[i];
+  // Can't judge a connection until both times are filled in
+  if (!previous.arrivalTime || !next.departureTime) return [];
+  const stationChange = !!normalizeName(previous.to) && !!normalizeName(next.from)
+    && normalizeName(previous.to) !== normalizeName(next.from);
+  const durationMs = getLegDeparture(next).getTime() - getLegArrival(previous).getTime();
+  const minimumMs = MIN_CONNECTION_MS[next.mode] + (stationChange ? STATION_CHANGE_MS : 0);
+  return [{
+    index: i,
+    station: stationChange ? `${previous.to} → ${next.from}` : previous.to || next.from,
+    stationChange,
+    durationMs,
+    minimumMs,
+    risk: durationMs < 0 ? 'missed' : durationMs < minimumMs ? 'tight' : 'ok'
+  }];
+});
+
+// "Milano Centrale → Zürich HB → Paris Gare de Lyon"
+export const describeRoute = (legs: TransportLeg[]) =>
+  [legs[0]?.from, ...legs.map(l => l.to)].filter(Boolean).join(' → ');
+
+// Keeps the event's own times, zones and mode in step with its legs so sorting,
+// the schedule checker and calendar export all see the whole journey
+export const applyJourney = <T extends Partial<TravelEvent>>(event: T): T => {
+  const legs = event.legs;
+  if (!legs || legs.length === 0) return { ...event, legs: undefined };
+  const first = legs[0];
+  const last = legs[legs.length - 1];
+  const endTimeZone = last.arrivalTimeZone || last.departureTimeZone;
+  return {
+    ...event,
+    transportMode: first.mode,
+    startTime: first.departureTime || event.startTime,
+    timeZone: first.departureTimeZone,
+    endTime: last.arrivalTime,
+    endTimeZone: endTimeZone !== first.departureTimeZone ? endTimeZone : undefined
+  };
+};
@@ -0,0 +1,42 @@
+import type { TravelEvent } from './types';
+
+// --- Lodging Stays ---
+//
+// A lodging event is a stay: startTime is check-in and endTime check-out. Nights are
+// the yyyy-MM-dd dates you go to sleep there, in the hotel's own wall-clock dates.
+
+export const addDays = (date: string, days: number) => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+};
+
+// A stay without a (later) check-out date still covers its first night
+export const getStayNights = (event: TravelEvent): string[] => {
+  const checkIn = event.startTime.slice(0, 10);
+  const checkOut = event.endTime ? event.endTime.slice(0, 10) : '';
+  if (!checkOut || checkOut <= checkIn) return [checkIn];
+  const nights: string[] = [];
+  for (let night = checkIn; night < checkOut; night = addDays(night, 1)) nights.push(night);
+  return nights;
+};
+
+export const getStayCost = (event: TravelEvent) =>
+  event.costPerNight ? event.costPerNight * getStayNights(event).length : event.cost;
+
+// Where you sleep on the night of `date`; the latest check-in wins if stays overlap
+export const getLodgingForNight = (events: TravelEvent[], date: string) =>
+  events
+    .filter(e => e.type === 'lodging' && getStayNights(e).includes(date))
+    .sort((a, b) => b.startTime.localeCompare(a.startTime))[0];
+
+// How an event's cost (or another amount of it, like the actual cost) lands on the
+// calendar, in its own currency
+export const getCostByDate = (event: TravelEvent, cost = event.cost): { date: string; amount: number }[] => {
+  if (!cost) return [];
+  if (event.type === 'lodging' && event.spreadCost) {
+    const nights = getStayNights(event);
+    return nights.map(date => ({ date, amount: cost / nights.length }));
+  }
+  return [{ date: event.startTime.slice(0, 10), amount: cost }];
+};
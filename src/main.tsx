@@ -1,7 +1,10 @@
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { registerServiceWorker } from './offline'
+
+registerServiceWorker()
 
 createRoot(document.getElementById('root')!).render(
   <App />
-)
\ No newline at end of file
+)
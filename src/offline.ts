@@ -0,0 +1,66 @@
+import { AiError } from './ai';
+
+// --- Offline ---
+//
+// The service worker (public/sw.js) keeps the app and itinerary images loading
+// without a connection. AI actions asked for while offline wait in a queue, kept in
+// localStorage so they survive the app being closed, and run once it's back online.
+
+export interface QueuedAiAction {
+  id: string;
+  kind: 'enhance-event' | 'estimate-cost';
+  tripId: string;
+  // Estimates can come from a form that was never saved, so they're matched on title and location too
+  eventId?: string;
+  title: string;
+  location: string;
+  attempts?: number; // failed tries on a connection that came and went
+}
+
+const QUEUE_KEY = 'euro_travel_ai_queue';
+
+export const loadAiQueue = (): QueuedAiAction[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(QUEUE_KEY) || '[]');
+    return Array.isArray(saved) ? saved.filter(a => a && typeof a.id === 'string' && typeof a.tripId === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveAiQueue = (queue: QueuedAiAction[]) => {
+  if (queue.length > 0) localStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+  else localStorage.removeItem(QUEUE_KEY);
+};
+
+// Failed only because the device has no connection; worth trying again later
+export const isOfflineError = (error: unknown) =>
+  error instanceof AiError && error.kind === 'network' && navigator.onLine === false;
+
+// The browser can think it's online on a flaky connection, so queued actions that fail
+// to reach the provider wait and try again a few times before being given up on
+export const isNetworkError = (error: unknown) => error instanceof AiError && error.kind === 'network';
+
+const RETRY_BASE_MS = 15_000;
+const RETRY_MAX_MS = 10 * 60_000;
+
+// Each attempt is already a full request, with the provider's own quick retries (ai.ts)
+// behind it, so the queue waits much longer between its attempts
+export const getQueueRetryDelay = (attempts: number) => Math.min(RETRY_BASE_MS * 2 ** attempts, RETRY_MAX_MS);
+
+// About a quarter of an hour of waiting in all; after that the action is given up on like any other failure
+export const MAX_QUEUE_ATTEMPTS = 6;
+
+// Only in production builds; in development it would serve stale modules
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`).catch(e => console.error('Service worker registration failed', e));
+  });
+};
+
+// Asks the service worker to fetch images the itinerary shows, so they're there offline
+export const cacheImages = (urls: string[]) => {
+  const controller = navigator.serviceWorker?.controller;
+  if (controller && urls.length > 0) controller.postMessage({ type: 'cache-images', urls });
+};
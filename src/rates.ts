@@ -0,0 +1,234 @@
+import type { RateHistory, TravelEvent, Trip } from './types';
+import type { Rates } from './currency';
+import { addDays } from './lodging';
+import { toLocalISOString } from './time';
+
+// --- Exchange Rate History ---
+//
+// Imported rates are kept per date, against the trip's home currency like `trip.rates`.
+// An expense converts at the rate for its own date, or the closest earlier one (nothing
+// is published at weekends); currencies without history use the typed-in rates.
+
+// One published day: units of each currency per 1 `base`, as ECB and most APIs quote them
+export interface RateQuotes {
+  date: string; // yyyy-MM-dd
+  base: string;
+  quotes: Rates;
+}
+
+export interface RateImportResult {
+  trip: Trip;
+  // yyyy-MM-dd dates that were added or updated
+  dates: string[];
+  // Days that didn't quote the home currency, so couldn't be converted
+  skipped: number;
+}
+
+const ECB_BASE = 'EUR';
+const RATES_ENDPOINT_KEY = 'euro_travel_rates_endpoint';
+const FETCH_TIMEOUT_MS = 20000;
+// Days before the trip kept, so a trip starting on a Monday still finds Friday's rates
+const LOOKBACK_DAYS = 7;
+
+// Frankfurter serves the ECB reference rates for any base; {base}, {start} and {end} are filled in
+export const DEFAULT_RATES_ENDPOINT = 'https://api.frankfurter.dev/v1/{start}..{end}?base={base}';
+
+export const loadRatesEndpoint = () => localStorage.getItem(RATES_ENDPOINT_KEY) || DEFAULT_RATES_ENDPOINT;
+
+export const saveRatesEndpoint = (url: string) => {
+  if (url && url !== DEFAULT_RATES_ENDPOINT) localStorage.setItem(RATES_ENDPOINT_KEY, url);
+  else localStorage.removeItem(RATES_ENDPOINT_KEY);
+};
+
+// --- Parsing ---
+
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+// "2026-06-01", or "1 June 2026" as in the ECB's daily CSV
+const parseQuoteDate = (value: string): string | null => {
+  const text = value.trim();
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) return text;
+  const match = text.match(/^(\d{1,2}) ([A-Za-z]+) (\d{4})$/);
+  const month = match ? MONTHS.indexOf(match[2].toLowerCase()) + 1 : 0;
+  return match && month > 0 ? `${match[3]}-${String(month).padStart(2, '0')}-${match[1].padStart(2, '0')}` : null;
+};
+
+const toQuote = (value: unknown) => {
+  const rate = typeof value === 'number' ? value : parseFloat(String(value));
+  return isFinite(rate) && rate > 0 ? rate : null;
+};
+
+// ECB layout: a Date column, then one column per currency in units per euro
+const parseCsv = (text: string): RateQuotes[] => {
+  const [headerLine, ...lines] = text.split(/\r?\n/).filter(line => line.trim());
+  const header = headerLine.split(',').map(h => h.trim().toUpperCase());
+  if (header[0] !== 'DATE') throw new Error('The CSV needs a "Date" column first, then one column per currency.');
+
+  return lines.flatMap(line => {
+    const cells = line.split(',');
+    const date = parseQuoteDate(cells[0]);
+    if (!date) return [];
+    const quotes: Rates = {};
+    header.forEach((code, i) => {
+      const rate = toQuote(cells[i]);
+      if (i > 0 && /^[A-Z]{3}$/.test(code) && rate) quotes[code] = rate;
+    });
+    return [{ date, base: ECB_BASE, quotes }];
+  });
+};
+
+// ECB eurofxref XML: <Cube time="…"><Cube currency="USD" rate="1.08"/>…</Cube>
+const parseXml = (text: string): RateQuotes[] =>
+  text.split(/<Cube\s+time=/).slice(1).flatMap(block => {
+    const date = block.match(/^["']([^"']+)["']/)?.[1];
+    if (!date || !parseQuoteDate(date)) return [];
+    const quotes: Rates = {};
+    for (const match of block.matchAll(/currency=["']([A-Z]{3})["']\s+rate=["']([\d.]+)["']/g)) {
+      const rate = toQuote(match[2]);
+      if (rate) quotes[match[1]] = rate;
+    }
+    return [{ date: parseQuoteDate(date)!, base: ECB_BASE, quotes }];
+  });
+
+const readRateMap = (value: unknown): Rates => {
+  const quotes: Rates = {};
+  if (value && typeof value === 'object') {
+    Object.entries(value).forEach(([code, raw]) => {
+      const rate = toQuote(raw);
+      if (/^[A-Z]{3}$/.test(code) && rate) quotes[code] = rate;
+    });
+  }
+  return quotes;
+};
+
+// { base, date, rates: { USD: 1.08 } } or a time series { base, rates: { "2026-06-01": { … } } }
+const parseJson = (text: string): RateQuotes[] => {
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new Error(`The rates were not valid JSON (${(e as Error).message}).`);
+  }
+  const base = String(data.base || data.base_code || data.source || '').toUpperCase();
+  const rates = data.rates || data.conversion_rates;
+  if (!/^[A-Z]{3}$/.test(base) || !rates || typeof rates !== 'object') {
+    throw new Error('The JSON needs a "base" currency and a "rates" object.');
+  }
+  const entries = Object.entries(rates);
+  if (entries.every(([key]) => parseQuoteDate(key))) {
+    return entries.map(([date, day]) => ({ date, base, quotes: readRateMap(day) }));
+  }
+  const updated = typeof data.time_last_update_utc === 'string' ? new Date(data.time_last_update_utc) : null;
+  const date = typeof data.date === 'string' && parseQuoteDate(data.date)
+    ? data.date
+    : toLocalISOString(updated && !isNaN(updated.getTime()) ? updated : new Date()).slice(0, 10);
+  return [{ date, base, quotes: readRateMap(rates) }];
+};
+
+export const parseRateFile = (text: string): RateQuotes[] => {
+  const clean = text.replace(/^\uFEFF/, '').trim();
+  const days = clean.startsWith('{') ? parseJson(clean) : clean.startsWith('<') ? parseXml(clean) : parseCsv(clean);
+  const usable = days.filter(day => Object.keys(day.quotes).length > 0);
+  if (usable.length === 0) throw new Error('No exchange rates were found in it.');
+  return usable;
+};
+
+export const fetchRateQuotes = async (template: string, params: { base: string; start: string; end: string }) => {
+  const url = template.replace(/\{(base|start|end)\}/g, (_, key: keyof typeof params) => encodeURIComponent(params[key]));
+  let response: Response;
+  try {
+    response = await fetch(url, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+  } catch (e) {
+    throw new Error(`Couldn't reach the rates endpoint (${(e as Error).message}).`);
+  }
+  if (!response.ok) throw new Error(`The rates endpoint answered ${response.status} ${response.statusText}.`);
+  return parseRateFile(await response.text());
+};
+
+// --- Lookup ---
+
+// Converts a published day to "home currency per unit"; null when the day doesn't quote home
+const toHomeRates = (day: RateQuotes, homeCurrency: string): Rates | null => {
+  const quotes = { ...day.quotes, [day.base]: 1 };
+  const pivot = quotes[homeCurrency];
+  if (!pivot) return null;
+  return Object.fromEntries(Object.entries(quotes).map(([code, quote]) => [code, Number((pivot / quote).toPrecision(6))]));
+};
+
+// A function giving the rate for a currency on a yyyy-MM-dd date
+export const createRateLookup = (rates: Rates, history: RateHistory = {}) => {
+  const datesByCurrency = new Map<string, string[]>();
+  Object.keys(history).sort().forEach(date => {
+    Object.keys(history[date]).forEach(currency => {
+      datesByCurrency.set(currency, [...(datesByCurrency.get(currency) || []), date]);
+    });
+  });
+
+  return (currency: string, date: string) => {
+    const dates = datesByCurrency.get(currency);
+    if (!dates) return rates[currency] || 1.0;
+    // The latest on or before the date, else the first one after
+    const onOrBefore = dates.filter(d => d <= date);
+    return history[onOrBefore.length > 0 ? onOrBefore[onOrBefore.length - 1] : dates[0]][currency];
+  };
+};
+
+// The most recent imported rate for each currency
+const getLatestRates = (history: RateHistory = {}): Rates =>
+  Object.keys(history).sort().reduce((latest, date) => ({ ...latest, ...history[date] }), {} as Rates);
+
+// New currencies take their latest imported rate, or a placeholder 1.0 the Wallet flags
+export const addMissingRates = (rates: Rates, history: RateHistory | undefined, currencies: string[]): Rates => {
+  const missing = currencies.filter(c => c && !rates[c]);
+  if (missing.length === 0) return rates;
+  const latest = getLatestRates(history);
+  return { ...rates, ...Object.fromEntries(missing.map(c => [c, latest[c] || 1.0])) };
+};
+
+// Still at 1.0 (or unset) with nothing imported: totals in it are plain wrong
+export const isPlaceholderRate = (trip: Pick<Trip, 'homeCurrency' | 'rates' | 'rateHistory'>, currency: string) =>
+  currency !== trip.homeCurrency
+  && !Object.values(trip.rateHistory || {}).some(day => day[currency])
+  && (!trip.rates[currency] || trip.rates[currency] === 1);
+
+// --- Import ---
+
+// The span worth keeping: the trip (or its events) plus a week before, and never after today
+export const getRateRange = (trip: Trip, today = toLocalISOString(new Date()).slice(0, 10)) => {
+  const dates = trip.events.map(e => e.startTime.slice(0, 10)).filter(Boolean).sort();
+  const start = trip.startDate || dates[0] || today;
+  const end = trip.endDate || dates[dates.length - 1] || today;
+  const last = end < today ? end : today;
+  return { start: addDays(start < last ? start : last, -LOOKBACK_DAYS), end: last };
+};
+
+export const importRateHistory = (trip: Trip, days: RateQuotes[]): RateImportResult => {
+  const { start, end } = getRateRange(trip);
+  const history: RateHistory = { ...trip.rateHistory };
+  const dates: string[] = [];
+  let skipped = 0;
+
+  // Long files (the ECB history goes back to 1999) are cut to the trip; a file that
+  // ends before the trip still contributes its last day
+  const latestDate = days.map(d => d.date).sort().pop();
+  days.forEach(day => {
+    if ((day.date < start || day.date > end) && day.date !== latestDate) return;
+    const rates = toHomeRates(day, trip.homeCurrency);
+    if (!rates) {
+      skipped++;
+      return;
+    }
+    history[day.date] = { ...history[day.date], ...rates };
+    dates.push(day.date);
+  });
+
+  // The typed-in rates follow the newest import for the currencies the trip uses
+  const latest = getLatestRates(history);
+  const used = [...Object.keys(trip.rates), ...trip.events.map((e: TravelEvent) => e.currency)];
+  const rates = { ...trip.rates };
+  used.forEach(currency => {
+    if (latest[currency]) rates[currency] = latest[currency];
+  });
+
+  return { trip: { ...trip, rates, rateHistory: history }, dates: dates.sort(), skipped };
+};
@@ -0,0 +1,183 @@
+import type { Expense, ExpenseCategory, PaymentMethod, RateHistory, TravelEvent } from './types';
+import { formatMoney, getMinorUnits, type Rates } from './currency';
+import { getCostByDate } from './lodging';
+import { createRateLookup } from './rates';
+import { CATEGORY_LABELS, getActualCost, getPaymentMethod } from './expenses';
+
+// --- Expense Reports ---
+//
+// One row per cost per day it counts on, converted the same way as the Wallet's
+// totals, so a report always adds up to what the Wallet shows.
+
+export interface ReportRow {
+  date: string; // yyyy-MM-dd
+  title: string;
+  category: ExpenseCategory;
+  amount: number;
+  currency: string;
+  rate: number; // home-currency units per unit of `currency`
+  converted: number;
+  method?: PaymentMethod;
+  paidBy?: string;
+}
+
+export interface StatementInfo {
+  tripName: string;
+  dates: string;
+  homeCurrency: string;
+}
+
+export const getReportRows = (events: TravelEvent[], expenses: Expense[], rates: Rates, history?: RateHistory): ReportRow[] => {
+  const getRate = createRateLookup(rates, history);
+  const rows: ReportRow[] = [];
+
+  events.forEach(e => {
+    const cardRate = e.paymentMethod === 'card' ? e.cardRate : undefined;
+    const days = getCostByDate(e, getActualCost(e)).filter(({ amount }) => amount > 0);
+    days.forEach(({ date, amount }, i) => {
+      const rate = cardRate || getRate(e.currency, date);
+      rows.push({
+        date,
+        // A stay spread over its nights shows once per night
+        title: days.length > 1 ? `${e.title} (${i + 1}/${days.length})` : e.title,
+        category: e.type,
+        amount,
+        currency: e.currency,
+        rate,
+        converted: amount * rate,
+        method: getPaymentMethod(e),
+        paidBy: e.split?.paidBy
+      });
+    });
+  });
+
+  expenses.forEach(x => {
+    if (!x.amount) return;
+    const rate = getRate(x.currency, x.date);
+    rows.push({
+      date: x.date,
+      title: x.title || CATEGORY_LABELS[x.category],
+      category: x.category,
+      amount: x.amount,
+      currency: x.currency,
+      rate,
+      converted: x.amount * rate,
+      method: x.paymentMethod,
+      paidBy: x.split?.paidBy
+    });
+  });
+
+  return rows.sort((a, b) => a.date.localeCompare(b.date));
+};
+
+// --- CSV ---
+
+const toFixedAmount = (amount: number, currency: string) => amount.toFixed(getMinorUnits(currency));
+
+// Quotes where needed; text starting like a formula is prefixed so spreadsheets show it as typed
+const csvField = (value: string, isText = false) => {
+  const text = isText && /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const buildCsv = (rows: ReportRow[], homeCurrency: string) => {
+  const header = ['Date', 'Title', 'Category', 'Amount', 'Currency', 'Rate', `Amount (${homeCurrency})`, 'Payment', 'Paid By'];
+  const lines = rows.map(row => [
+    row.date,
+    csvField(row.title, true),
+    row.category,
+    toFixedAmount(row.amount, row.currency),
+    row.currency,
+    String(Number(row.rate.toPrecision(6))),
+    toFixedAmount(row.converted, homeCurrency),
+    row.method || '',
+    csvField(row.paidBy || '', true)
+  ].join(','));
+  // The byte order mark makes spreadsheet apps read it as UTF-8
+  return `\uFEFF${[header.join(','), ...lines].join('\r\n')}\r\n`;
+};
+
+// --- Printable Statement ---
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00`).toLocaleDateString(undefined, { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' });
+
+const sum = (rows: ReportRow[]) => rows.reduce((total, row) => total + row.converted, 0);
+
+const groupBy = <K extends string>(rows: ReportRow[], key: (row: ReportRow) => K) => {
+  const groups = new Map<K, ReportRow[]>();
+  rows.forEach(row => groups.set(key(row), [...(groups.get(key(row)) || []), row]));
+  return groups;
+};
+
+const STATEMENT_STYLE = `
+  body { font: 13px/1.4 -apple-system, system-ui, sans-serif; color: #000; margin: 2rem auto; max-width: 800px; padding: 0 1rem; }
+  h1 { font-size: 22px; margin: 0; }
+  h2 { font-size: 15px; margin: 1.5rem 0 0.5rem; }
+  .muted { color: #6b6b70; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { text-align: left; padding: 4px 6px; border-bottom: 1px solid #e5e5ea; }
+  .num { text-align: right; white-space: nowrap; }
+  .category td { font-weight: 600; background: #f2f2f7; }
+  .subtotal td, .total td { font-weight: 600; }
+  .total td { border-top: 2px solid #000; font-size: 15px; }
+  section { break-inside: avoid; }
+  @page { margin: 1.5cm; }
+`;
+
+// Grouped by day, then category, with subtotals, and a summary by category at the end
+export const buildStatementHtml = (rows: ReportRow[], info: StatementInfo) => {
+  const money = (amount: number) => escapeHtml(formatMoney(amount, info.homeCurrency));
+  const categoryTotals = groupBy(rows, row => row.category);
+
+  const days = [...groupBy(rows, row => row.date)].map(([date, dayRows]) => {
+    const categories = [...groupBy(dayRows, row => row.category)].map(([category, items]) => `
+      <tr class="category"><td colspan="6">${escapeHtml(CATEGORY_LABELS[category])}</td></tr>
+      ${items.map(row => `
+      <tr>
+        <td>${escapeHtml(row.title)}</td>
+        <td class="num">${escapeHtml(formatMoney(row.amount, row.currency))}</td>
+        <td class="num">${row.currency === info.homeCurrency ? '' : Number(row.rate.toPrecision(6))}</td>
+        <td class="num">${money(row.converted)}</td>
+        <td>${row.method || ''}</td>
+        <td>${escapeHtml(row.paidBy || '')}</td>
+      </tr>`).join('')}
+      <tr class="subtotal"><td colspan="3">${escapeHtml(CATEGORY_LABELS[category])} subtotal</td><td class="num">${money(sum(items))}</td><td colspan="2"></td></tr>`);
+
+    return `
+  <section>
+    <h2>${escapeHtml(formatDay(date))}</h2>
+    <table>
+      <tr><th>Item</th><th class="num">Amount</th><th class="num">Rate</th><th class="num">${escapeHtml(info.homeCurrency)}</th><th>Payment</th><th>Paid by</th></tr>
+      ${categories.join('')}
+      <tr class="total"><td colspan="3">Day total</td><td class="num">${money(sum(dayRows))}</td><td colspan="2"></td></tr>
+    </table>
+  </section>`;
+  });
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(info.tripName)} · Expense Statement</title>
+<style>${STATEMENT_STYLE}</style>
+</head>
+<body>
+  <h1>${escapeHtml(info.tripName)}</h1>
+  <p class="muted">${escapeHtml(info.dates)} · Expense statement in ${escapeHtml(info.homeCurrency)} · ${rows.length} item(s)</p>
+  ${days.join('')}
+  <section>
+    <h2>By Category</h2>
+    <table>
+      ${[...categoryTotals].map(([category, items]) => `
+      <tr><td>${escapeHtml(CATEGORY_LABELS[category])}</td><td class="num">${money(sum(items))}</td></tr>`).join('')}
+      <tr class="total"><td>Total</td><td class="num">${money(sum(rows))}</td></tr>
+    </table>
+  </section>
+</body>
+</html>
+`;
+};
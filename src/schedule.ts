@@ -0,0 +1,157 @@
+import type { TravelEvent } from './types';
+import { getEventStart, getEventEnd, formatDuration } from './time';
+import { getEventDateRange } from './trips';
+import { getConnections } from './journeys';
+import { addDays, getStayNights } from './lodging';
+import { normalizeName } from './validation';
+
+// --- Schedule Checks ---
+//
+// Walks the itinerary in start order and flags things that can't all happen as planned.
+// Lodging is left out of the overlap and gap checks: being "in" a hotel all night
+// shouldn't clash with dinner.
+
+export type ScheduleIssueKind = 'overlap' | 'tight-gap' | 'invalid-times' | 'connection' | 'no-lodging';
+
+export interface ScheduleIssue {
+  kind: ScheduleIssueKind;
+  severity: 'error' | 'warning';
+  // The event the warning is shown above; missing for trip-wide issues like nights without lodging
+  eventId?: string;
+  // The earlier event it clashes with
+  relatedEventId?: string;
+  date: string; // yyyy-MM-dd
+  message: string;
+}
+
+// Minimum time to get between two different places, longer after a train or flight
+// because leaving the station or airport takes a while
+const MIN_TRANSFER_MS = 15 * 60 * 1000;
+const MIN_TRANSFER_AFTER_ARRIVAL_MS = 30 * 60 * 1000;
+
+const isSamePlace = (a: TravelEvent, b: TravelEvent) => {
+  const placeA = normalizeName(a.location);
+  const placeB = normalizeName(b.location);
+  // Without both locations there's nothing to compare, so don't complain
+  return !placeA || !placeB || placeA === placeB;
+};
+
+// yyyy-MM-dd nights an event puts a roof over your head (the date you go to sleep)
+const getCoveredNights = (event: TravelEvent): string[] => {
+  if (event.type === 'lodging') return getStayNights(event);
+  const startDate = event.startTime.slice(0, 10);
+  const endDate = event.endTime ? event.endTime.slice(0, 10) : '';
+  // Night trains and red-eye flights
+  if (event.type === 'transport' && endDate > startDate) return [startDate];
+  return [];
+};
+
+const findNightsWithoutLodging = (events: TravelEvent[], range: { startDate: string; endDate: string }): ScheduleIssue[] => {
+  const fallback = getEventDateRange(events);
+  const startDate = range.startDate || fallback.startDate;
+  const endDate = range.endDate || fallback.endDate;
+  if (!startDate || !endDate) return [];
+
+  const covered = new Set(events.flatMap(getCoveredNights));
+  const issues: ScheduleIssue[] = [];
+  // The last day is the trip home, so it has no night to cover
+  for (let night = startDate; night < endDate; night = addDays(night, 1)) {
+    if (covered.has(night)) continue;
+    issues.push({
+      kind: 'no-lodging',
+      severity: 'warning',
+      date: night,
+      message: `No lodging booked for the night of ${new Date(`${night}T00:00`).toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' })}`
+    });
+  }
+  return issues;
+};
+
+export const checkSchedule = (sortedEvents: TravelEvent[], range: { startDate: string; endDate: string }): ScheduleIssue[] => {
+  const issues: ScheduleIssue[] = [];
+  // The earlier event that finishes last; anything starting before it ends clashes with it
+  let busyUntil: { event: TravelEvent; end: Date } | null = null;
+  let previous: TravelEvent | null = null;
+
+  sortedEvents.forEach(event => {
+    const date = event.startTime.slice(0, 10);
+    const start = getEventStart(event);
+    const end = getEventEnd(event);
+
+    if (end && end.getTime() < start.getTime()) {
+      issues.push({
+        kind: 'invalid-times',
+        severity: 'error',
+        eventId: event.id,
+        date,
+        message: `Ends ${formatDuration(start.getTime() - end.getTime())} before it starts`
+      });
+    }
+
+    getConnections(event.legs || []).forEach(connection => {
+      if (connection.risk === 'ok') return;
+      issues.push({
+        kind: 'connection',
+        severity: connection.risk === 'missed' ? 'error' : 'warning',
+        eventId: event.id,
+        date,
+        message: connection.risk === 'missed'
+          ? `Leg ${connection.index + 2} leaves ${formatDuration(-connection.durationMs)} before leg ${connection.index + 1} arrives`
+          : `Only ${formatDuration(connection.durationMs)} to change at ${connection.station} (allow ${formatDuration(connection.minimumMs)})`
+      });
+    });
+
+    if (event.type === 'lodging') return;
+
+    if (busyUntil && start.getTime() < busyUntil.end.getTime()) {
+      issues.push({
+        kind: 'overlap',
+        severity: 'error',
+        eventId: event.id,
+        relatedEventId: busyUntil.event.id,
+        date,
+        message: `Starts ${formatDuration(busyUntil.end.getTime() - start.getTime())} before "${busyUntil.event.title}" ends`
+      });
+    } else if (previous && getEventStart(previous).getTime() === start.getTime() && !getEventEnd(previous)) {
+      issues.push({
+        kind: 'overlap',
+        severity: 'error',
+        eventId: event.id,
+        relatedEventId: previous.id,
+        date,
+        message: `Starts at the same time as "${previous.title}"`
+      });
+    } else if (busyUntil && !isSamePlace(busyUntil.event, event)) {
+      const gap = start.getTime() - busyUntil.end.getTime();
+      const needed = busyUntil.event.type === 'transport' ? MIN_TRANSFER_AFTER_ARRIVAL_MS : MIN_TRANSFER_MS;
+      if (gap < needed) {
+        issues.push({
+          kind: 'tight-gap',
+          severity: 'warning',
+          eventId: event.id,
+          relatedEventId: busyUntil.event.id,
+          date,
+          message: `Only ${formatDuration(gap)} to get here from "${busyUntil.event.title}" (allow at least ${formatDuration(needed)})`
+        });
+      }
+    }
+
+    if (end && end.getTime() >= start.getTime() && (!busyUntil || end.getTime() > busyUntil.end.getTime())) {
+      busyUntil = { event, end };
+    }
+    previous = event;
+  });
+
+  issues.push(...findNightsWithoutLodging(sortedEvents, range));
+  return issues.sort((a, b) => a.date.localeCompare(b.date));
+};
+
+// Issues keyed by the event they belong above, for the inline warnings
+export const groupIssuesByEvent = (issues: ScheduleIssue[]) => {
+  const byEvent = new Map<string, ScheduleIssue[]>();
+  issues.forEach(issue => {
+    if (!issue.eventId) return;
+    byEvent.set(issue.eventId, [...(byEvent.get(issue.eventId) || []), issue]);
+  });
+  return byEvent;
+};
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { parseBookingText, type PasteDraft } from './smartPaste';
+import expectedJson from '../fixtures/smart-paste/expected.json?raw';
+
+const emails = import.meta.glob<string>('../fixtures/smart-paste/*.txt', { query: '?raw', import: 'default', eager: true });
+const expected: { [file: string]: PasteDraft[] } = JSON.parse(expectedJson);
+
+// Dates without a year in the emails are read against this day
+const TODAY = new Date('2026-05-01T12:00:00');
+
+describe('parseBookingText', () => {
+  it('has an expectation for every sample email', () => {
+    const files = Object.keys(emails).map(path => path.split('/').pop()!);
+    expect(files.sort()).toEqual(Object.keys(expected).sort());
+  });
+
+  Object.entries(emails).forEach(([path, text]) => {
+    const file = path.split('/').pop()!;
+    it(`reads ${file}`, () => {
+      expect(parseBookingText(text, TODAY)).toEqual(expected[file]);
+    });
+  });
+});
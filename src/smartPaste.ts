@@ -0,0 +1,458 @@
+import type { TravelEvent } from './types';
+import { coerceMoney } from './validation';
+import { addDays, getStayNights } from './lodging';
+import { toLocalISOString } from './time';
+
+// --- Offline Smart Paste ---
+//
+// Rule-based extraction for the booking emails we see most: European rail, low-cost
+// airlines, stays and restaurant reservations. It runs before the AI, so Smart Paste
+// works offline and without a key; whatever it can't read is left to the AI.
+// One email can hold several events: outbound and return flights, or a stay with its
+// breakfasts.
+//
+// Sample emails and the drafts they should produce live in fixtures/smart-paste and are
+// checked by smartPaste.test.ts.
+
+export interface PasteDraft {
+  // Which rule matched, e.g. 'Trenitalia'
+  source: string;
+  event: Partial<TravelEvent>;
+}
+
+interface PasteRule {
+  source: string;
+  detect: RegExp;
+  // Where each journey starts in an email with several (a flight or train number)
+  segment?: RegExp;
+  extract: (text: string, today: Date) => Partial<TravelEvent>;
+  // Events that come with the main one, like breakfasts included in a stay
+  extras?: (event: Partial<TravelEvent>, text: string) => Partial<TravelEvent>[];
+}
+
+interface Found {
+  value: string;
+  index: number;
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const clean = (value: string | undefined) => value?.replace(/\s+/g, ' ').replace(/[,;.]+$/, '').trim() || undefined;
+
+// --- Dates & Times ---
+
+// English, French, Italian and German
+const MONTH_NAMES: string[][] = [
+  ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'],
+  ['janvier', 'février', 'mars', 'avril', 'mai', 'juin', 'juillet', 'août', 'septembre', 'octobre', 'novembre', 'décembre'],
+  ['gennaio', 'febbraio', 'marzo', 'aprile', 'maggio', 'giugno', 'luglio', 'agosto', 'settembre', 'ottobre', 'novembre', 'dicembre'],
+  ['januar', 'februar', 'märz', 'april', 'mai', 'juni', 'juli', 'august', 'september', 'oktober', 'november', 'dezember']
+];
+
+// Full names and any abbreviation that only fits one month ("sept", "giu"; not "jui")
+const toMonth = (word: string): number | null => {
+  const w = word.toLowerCase().replace(/\.$/, '');
+  if (w.length < 3) return null;
+  const months = new Set(MONTH_NAMES.flatMap(names =>
+    names.flatMap((name, i) => (name.startsWith(w) || w.startsWith(name) ? [i + 1] : []))));
+  return months.size === 1 ? [...months][0] : null;
+};
+
+const toIsoDate = (year: number, month: number, day: number) => {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  return `${year < 100 ? 2000 + year : year}-${pad(month)}-${pad(day)}`;
+};
+
+// A date without a year is the next time that day comes round
+const guessYear = (month: number, day: number, today: Date) => {
+  const year = today.getFullYear();
+  return `${year}-${pad(month)}-${pad(day)}` < toLocalISOString(today).slice(0, 10) ? year + 1 : year;
+};
+
+const MONTH_WORD = '([A-Za-zÀ-ÿ]{3,10}\\.?)';
+
+const DATE_PATTERNS: { pattern: RegExp; read: (m: RegExpMatchArray, today: Date) => string | null }[] = [
+  { pattern: /\b(\d{4})-(\d{2})-(\d{2})\b/g, read: m => toIsoDate(+m[1], +m[2], +m[3]) },
+  // Day first, as written across Europe, unless the second number can't be a month
+  {
+    pattern: /\b(\d{1,2})[./](\d{1,2})[./](\d{4}|\d{2})\b/g,
+    read: m => (+m[2] > 12 ? toIsoDate(+m[3], +m[1], +m[2]) : toIsoDate(+m[3], +m[2], +m[1]))
+  },
+  // 1 June 2026, 1er juin 2026, 1. Juni 2026, 01 Jun 26
+  {
+    pattern: new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th|er|\\.)?\\s+${MONTH_WORD},?(?:\\s+(\\d{4}|\\d{2})\\b)?`, 'g'),
+    read: (m, today) => {
+      const month = toMonth(m[2]);
+      if (!month) return null;
+      return toIsoDate(m[3] ? +m[3] : guessYear(month, +m[1], today), month, +m[1]);
+    }
+  },
+  // June 1, 2026
+  {
+    pattern: new RegExp(`\\b${MONTH_WORD}\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b,?(?:\\s+(\\d{4})\\b)?`, 'g'),
+    read: (m, today) => {
+      const month = toMonth(m[1]);
+      if (!month) return null;
+      return toIsoDate(m[3] ? +m[3] : guessYear(month, +m[2], today), month, +m[2]);
+    }
+  }
+];
+
+const findDates = (text: string, today: Date): Found[] => {
+  const found: Found[] = [];
+  DATE_PATTERNS.forEach(({ pattern, read }) => {
+    for (const match of text.matchAll(pattern)) {
+      const value = read(match, today);
+      // The same date can match two patterns ("01 Jun 26" and "Jun 26")
+      if (value && !found.some(f => Math.abs(f.index - match.index!) < 4)) found.push({ value, index: match.index! });
+    }
+  });
+  return found.sort((a, b) => a.index - b.index);
+};
+
+// 09:10, 9:10 pm, 10h00; dots are left out since they're usually prices
+const TIME_PATTERN = /\b([01]?\d|2[0-3])[:h]([0-5]\d)(?:\s*([AaPp])\.?[Mm]\b\.?)?(?!\d)/g;
+
+const findTimes = (text: string): Found[] => [...text.matchAll(TIME_PATTERN)].map(m => {
+  let hours = +m[1];
+  const meridiem = m[3]?.toLowerCase();
+  if (meridiem === 'p' && hours < 12) hours += 12;
+  if (meridiem === 'a' && hours === 12) hours = 0;
+  return { value: `${pad(hours)}:${m[2]}`, index: m.index! };
+});
+
+// --- Fields ---
+
+// The first value shortly after a label
+const findAfter = (found: Found[], text: string, label: RegExp, window = 60) => {
+  const match = label.exec(text);
+  if (!match) return undefined;
+  const from = match.index + match[0].length;
+  return found.find(f => f.index >= from && f.index <= from + window);
+};
+
+// The travel date is the closest one before the departure time; booking dates come earlier
+const findDateFor = (dates: Found[], time: Found | undefined) => {
+  if (!time) return dates[0]?.value;
+  const before = dates.filter(d => d.index < time.index);
+  return before[before.length - 1]?.value || dates.find(d => d.index > time.index)?.value;
+};
+
+// "Label: value" at the start of a line; a colon, tab or wide gap separates them
+const findField = (text: string, label: RegExp) => {
+  const match = text.match(new RegExp(`(?:^|\\n)[ \\t]*(?:${label.source})[ \\t]*(?::|#|\\t| {2,})[ \\t]*([^\\n]+)`, 'i'));
+  return match ? match[1].trim() : undefined;
+};
+
+// A booking code at the start of a field, for "Confirmation number: 4128.557.901 (PIN 2231)"
+const findCode = (text: string, label: RegExp) => findField(text, label)?.match(/^[\p{L}\p{N}]+(?:[.-][\p{L}\p{N}]+)*/u)?.[0];
+
+// Coach, seat and platform numbers, for "Carrozza: 5 (2nd class)"; "Posto: non previsto" has none
+const findNumber = (text: string, label: RegExp) => findField(text, label)?.match(/^\d{1,3}[A-Z]?\b/)?.[0];
+
+const ROUTE_SEPARATOR = /\s*(?:→|->|–| - | > )\s*/;
+
+// "Milano Centrale → Roma Termini", with any times on the line dropped
+const findRoute = (text: string) => {
+  const line = text.split('\n').find(l => ROUTE_SEPARATOR.test(l) && /\p{L}/u.test(l) && !/https?:/.test(l));
+  const parts = line?.replace(TIME_PATTERN, '').split(ROUTE_SEPARATOR).map(clean).filter(Boolean) as string[] | undefined;
+  return parts && parts.length >= 2 ? { from: parts[0], to: parts[parts.length - 1] } : undefined;
+};
+
+const MONEY_PATTERN = /(?:[A-Z]{3}|[€£$¥]|CHF|HK\$|US\$)?\s*(?:\d[\d.,]*\d|\d)(?:\s*(?:[A-Z]{3}\b|€|£|CHF|zł|Kč|Ft))?/;
+
+// Without a currency in the email, assume euros: every sender here is in the eurozone or says so
+const findTotal = (text: string, label: RegExp) => {
+  const line = findField(text, label);
+  const money = line ? coerceMoney(line.match(MONEY_PATTERN)?.[0].trim()) : null;
+  return money && money.amount > 0 ? { cost: money.amount, currency: money.currency || 'EUR' } : {};
+};
+
+// Arrival clock times earlier than the departure are the next morning
+const combine = (date: string | undefined, start: string | undefined, end: string | undefined) => {
+  if (!date || !start) return { endTime: '' };
+  const endDate = end && end < start ? addDays(date, 1) : date;
+  return { startTime: `${date}T${start}`, endTime: end ? `${endDate}T${end}` : '' };
+};
+
+// --- Trains ---
+
+interface TrainLabels {
+  // Matches the service, e.g. "Frecciarossa 9520"
+  train: RegExp;
+  from: RegExp;
+  to: RegExp;
+  departure: RegExp;
+  arrival: RegExp;
+  coach: RegExp;
+  seat: RegExp;
+  platform: RegExp;
+  total: RegExp;
+  reference: RegExp;
+}
+
+const extractTrain = (labels: TrainLabels) => (text: string, today: Date): Partial<TravelEvent> => {
+  const times = findTimes(text);
+  const departure = findAfter(times, text, labels.departure) || times[0];
+  const arrival = findAfter(times, text, labels.arrival) || times.find(t => t.index > (departure?.index ?? -1));
+  const route = findRoute(text);
+  const from = clean(findField(text, labels.from)) || route?.from;
+  const to = clean(findField(text, labels.to)) || route?.to;
+  const service = clean(text.match(labels.train)?.[0]);
+  const coach = findNumber(text, labels.coach);
+  const seat = findNumber(text, labels.seat);
+  const reference = findCode(text, labels.reference);
+
+  return {
+    type: 'transport',
+    transportMode: 'train',
+    title: [service, from && to ? `${from} → ${to}` : from].filter(Boolean).join(' ') || 'Train',
+    location: from || '',
+    ...combine(findDateFor(findDates(text, today), departure), departure?.value, arrival?.value),
+    seatInfo: coach || seat ? [coach && `Coach ${coach}`, seat && `Seat ${seat}`].filter(Boolean).join(', ') : undefined,
+    platform: findNumber(text, labels.platform),
+    notes: reference ? `Booking reference: ${reference}` : '',
+    ...findTotal(text, labels.total)
+  };
+};
+
+// --- Flights ---
+
+const AIRPORT_ROUTE = /([\p{L}' -]+?)\s*\(([A-Z]{3})\)\s*(?:to|→|->|-|–)\s*([\p{L}' -]+?)\s*\(([A-Z]{3})\)/u;
+
+const extractFlight = (flightNumber: RegExp) => (text: string, today: Date): Partial<TravelEvent> => {
+  const times = findTimes(text);
+  const departure = findAfter(times, text, /\b(?:departs?|departure|dep)\b/i) || times[0];
+  const arrival = findAfter(times, text, /\b(?:arrives?|arrival|arr)\b/i) || times.find(t => t.index > (departure?.index ?? -1));
+  const route = text.match(AIRPORT_ROUTE);
+  const flight = text.match(flightNumber);
+  const seats = findField(text, /seats?/)?.match(/\b\d{1,2}[A-K]\b/g);
+  const reference = findCode(text, /booking reference|reservation number|confirmation code|booking ref/);
+
+  return {
+    type: 'transport',
+    transportMode: 'flight',
+    title: [flight && `${flight[1]} ${flight[2]}`, route && `${route[1].trim()} → ${route[3].trim()}`].filter(Boolean).join(' ') || 'Flight',
+    location: route ? `${route[1].trim()} (${route[2]})` : '',
+    ...combine(findDateFor(findDates(text, today), departure), departure?.value, arrival?.value),
+    seatInfo: seats ? `${seats.length > 1 ? 'Seats' : 'Seat'} ${seats.join(', ')}` : undefined,
+    notes: reference ? `Booking reference: ${reference}` : '',
+    ...findTotal(text, /total(?: paid| price| amount)?|amount paid/)
+  };
+};
+
+// --- Stays ---
+
+// Usual times when the email only gives dates
+const DEFAULT_CHECK_IN = '15:00';
+const DEFAULT_CHECK_OUT = '11:00';
+
+const extractStay = (namePatterns: RegExp[]) => (text: string, today: Date): Partial<TravelEvent> => {
+  const dates = findDates(text, today);
+  const times = findTimes(text);
+  const name = namePatterns.map(p => clean(text.match(p)?.[1])).find(Boolean);
+  const checkInDate = findAfter(dates, text, /check-?in/i, 40)?.value;
+  const checkOutDate = findAfter(dates, text, /check-?out/i, 40)?.value;
+  const checkIn = findAfter(times, text, /check-?in/i, 80)?.value;
+  const checkOut = findAfter(times, text, /check-?out/i, 80)?.value;
+
+  return {
+    type: 'lodging',
+    title: name || 'Stay',
+    location: name || '',
+    address: clean(findField(text, /address|adresse|indirizzo/)),
+    confirmationCode: findCode(text, /confirmation (?:number|code)|booking number|reservation code/),
+    startTime: checkInDate ? `${checkInDate}T${checkIn || DEFAULT_CHECK_IN}` : undefined,
+    endTime: checkOutDate ? `${checkOutDate}T${checkOut && checkOut !== checkIn ? checkOut : DEFAULT_CHECK_OUT}` : '',
+    ...findTotal(text, /total(?: price| \([A-Z]{3}\))?|price/)
+  };
+};
+
+const BREAKFAST_INCLUDED = /breakfast(?: is)? included|colazione inclusa|petit[- ]déjeuner inclus|frühstück inklusive|inkl\. frühstück/i;
+const BREAKFAST_TIME = '08:00';
+
+// One breakfast on each morning after a night of the stay
+const getBreakfasts = (stay: Partial<TravelEvent>, text: string): Partial<TravelEvent>[] => {
+  if (!BREAKFAST_INCLUDED.test(text) || !stay.startTime || !stay.endTime) return [];
+  const nights = getStayNights({ ...stay, startTime: stay.startTime, endTime: stay.endTime } as TravelEvent);
+  return nights.map(night => ({
+    type: 'dining',
+    title: `Breakfast at ${stay.title}`,
+    location: stay.location || '',
+    startTime: `${addDays(night, 1)}T${BREAKFAST_TIME}`,
+    endTime: '',
+    notes: 'Included with the stay'
+  }));
+};
+
+// --- Restaurants ---
+
+const RESTAURANT_NAMES = [
+  /(?:reservation|booking|table) (?:at|for) ([^\n,.!]+?)(?: is| has been| for| on|[\n,.!])/i,
+  /(?:prenotazione|réservation)[^\n]*? (?:presso|chez|al|da|au) ([^\n,.!]+?)(?: è| est| per| pour|[\n,.!])/i,
+  /(?:restaurant|ristorante)\s*:\s*([^\n]+)/i
+];
+
+const PARTY_SIZE = /(?:party of|table for|guests?\s*:|persone\s*:|personnes\s*:)\s*(\d{1,2})|(?<![\d:])(\d{1,2})\s+(?:people|persons|guests|personnes|persone|personen|coperti)/i;
+
+const extractReservation = (text: string, today: Date): Partial<TravelEvent> => {
+  const times = findTimes(text);
+  const time = findAfter(times, text, /\b(?:time|ora|orario|heure|uhrzeit|at|um)\b|à/i) || times[0];
+  const name = RESTAURANT_NAMES.map(p => clean(text.match(p)?.[1])).find(Boolean);
+  const party = text.match(PARTY_SIZE);
+  const date = findDateFor(findDates(text, today), time);
+
+  return {
+    type: 'dining',
+    title: name || 'Restaurant reservation',
+    location: clean(findField(text, /address|adresse|indirizzo/)) || name || '',
+    startTime: date && time ? `${date}T${time.value}` : undefined,
+    endTime: '',
+    notes: party ? `Table for ${party[1] || party[2]}` : ''
+  };
+};
+
+// --- Rules ---
+
+const TRENITALIA_SERVICE = /(?:Frecciarossa|Frecciargento|Frecciabianca|Intercity|Regionale(?: Veloce)?)(?: 1000)? \d{3,5}/i;
+const SNCF_SERVICE = /(?:TGV INOUI|TGV|OUIGO|TER|Intercités)\s+\d{3,5}/i;
+const DB_SERVICE = /\b(?:ICE|IC|EC|RE|RB)\s+\d{1,5}/;
+const RYANAIR_FLIGHT = /\b(FR|RK)\s?(\d{2,4})\b/;
+const EASYJET_FLIGHT = /\b(U2|EZY|EJU|EZS)\s?(\d{2,4})\b/;
+
+// Checked in order; the first whose `detect` matches does the extraction
+const RULES: PasteRule[] = [
+  {
+    source: 'Trenitalia',
+    detect: /trenitalia|frecciarossa|frecciargento|frecciabianca|regionale veloce/i,
+    segment: TRENITALIA_SERVICE,
+    extract: extractTrain({
+      train: TRENITALIA_SERVICE,
+      from: /da|partenza da|stazione di partenza/,
+      to: /a|arrivo a|stazione di arrivo/,
+      departure: /\bpartenza\b/i,
+      arrival: /\barrivo\b/i,
+      coach: /carrozza/,
+      seat: /posto|posti/,
+      platform: /binario/,
+      total: /importo(?: totale)?|totale|prezzo/,
+      reference: /pnr|codice (?:biglietto|prenotazione)/
+    })
+  },
+  {
+    source: 'SNCF',
+    detect: /sncf|\bTGV\b|inoui|ouigo|intercités/i,
+    segment: SNCF_SERVICE,
+    extract: extractTrain({
+      train: SNCF_SERVICE,
+      from: /de|départ de|gare de départ/,
+      to: /à|vers|gare d'arrivée/,
+      departure: /\bdépart\b/i,
+      arrival: /\barrivée\b/i,
+      coach: /voiture/,
+      seat: /place|places/,
+      platform: /voie/,
+      total: /prix(?: total)?|total|montant/,
+      reference: /référence(?: (?:de )?dossier)?|dossier/
+    })
+  },
+  {
+    source: 'Deutsche Bahn',
+    detect: /deutsche bahn|bahn\.de|\bDB (?:Fernverkehr|Navigator)|\bICE \d/i,
+    extract: extractTrain({
+      train: DB_SERVICE,
+      from: /von|abfahrtsbahnhof/,
+      to: /nach|ankunftsbahnhof/,
+      departure: /\b(?:ab|abfahrt)\b/i,
+      arrival: /\b(?:an|ankunft)\b/i,
+      coach: /wagen/,
+      seat: /platz|sitzplatz/,
+      platform: /gleis/,
+      total: /summe|gesamtpreis|preis|betrag/,
+      reference: /auftragsnummer|buchungsnummer/
+    })
+  },
+  {
+    source: 'Ryanair',
+    detect: /ryanair/i,
+    segment: RYANAIR_FLIGHT,
+    extract: extractFlight(RYANAIR_FLIGHT)
+  },
+  {
+    source: 'easyJet',
+    detect: /easyjet/i,
+    segment: EASYJET_FLIGHT,
+    extract: extractFlight(EASYJET_FLIGHT)
+  },
+  {
+    source: 'Booking.com',
+    detect: /booking\.com/i,
+    extract: extractStay([
+      /(?:booking|reservation|stay) (?:at|in) ([^\n]+?) is confirmed/i,
+      /^(?:property|hotel|property name)\s*:\s*([^\n]+)/im
+    ]),
+    extras: getBreakfasts
+  },
+  {
+    source: 'Airbnb',
+    detect: /airbnb/i,
+    extract: extractStay([
+      /reservation (?:at|for) ([^\n]+?) is confirmed/i,
+      /^listing\s*:\s*([^\n]+)/im,
+      /your (?:stay|trip) at ([^\n]+)/i
+    ]),
+    extras: getBreakfasts
+  },
+  {
+    source: 'Restaurant',
+    detect: /thefork|lafourchette|opentable|quandoo|table for|party of|ristorante|restaurant|prenotazione|réservation/i,
+    extract: extractReservation
+  }
+];
+
+// --- Entry Point ---
+
+// Splits at the first mention of each distinct flight or train; the text before the
+// first one (booking reference, passenger) is shared by every part
+const splitSegments = (text: string, marker: RegExp) => {
+  const seen = new Set<string>();
+  const starts: number[] = [];
+  for (const match of text.matchAll(new RegExp(marker.source, `${marker.flags}g`))) {
+    const key = match[0].replace(/\s/g, '').toUpperCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+    starts.push(text.lastIndexOf('\n', match.index!) + 1);
+  }
+  if (starts.length < 2) return [text];
+  const header = text.slice(0, starts[0]);
+  return starts.map((start, i) => header + text.slice(start, starts[i + 1]));
+};
+
+// Leave out what wasn't found, so it doesn't blank fields already in the form
+const withoutEmpty = (event: Partial<TravelEvent>) =>
+  Object.fromEntries(Object.entries(event).filter(([, value]) => value !== undefined)) as Partial<TravelEvent>;
+
+// Empty when no rule recognises the text. Drafts can still be missing their times;
+// see isCompleteDraft.
+export const parseBookingText = (text: string, today = new Date()): PasteDraft[] => {
+  const normalized = text.replace(/\r\n?/g, '\n').replace(/\u00a0/g, ' ');
+  const rule = RULES.find(r => r.detect.test(normalized));
+  if (!rule) return [];
+
+  const whole = rule.extract(normalized, today);
+  const segments = rule.segment ? splitSegments(normalized, rule.segment) : [normalized];
+  let events = segments.length > 1 ? segments.map(segment => rule.extract(segment, today)) : [whole];
+  if (segments.length > 1) {
+    // A booking total found in several parts is one price for the lot; it goes on the first
+    events = events.map((event, i) => (i > 0 && whole.cost && event.cost === whole.cost ? { ...event, cost: undefined, currency: undefined } : event));
+    if (!events[0].cost && whole.cost) events[0] = { ...events[0], cost: whole.cost, currency: whole.currency };
+  }
+
+  return events
+    .flatMap(event => [event, ...(rule.extras?.(event, normalized) || [])])
+    .map(event => ({ source: rule.source, event: withoutEmpty(event) }));
+};
+
+// Enough to add without asking the AI
+export const isCompleteDraft = (draft: PasteDraft) =>
+  !!draft.event.title && !!draft.event.startTime && !isNaN(Date.parse(draft.event.startTime));
@@ -0,0 +1,64 @@
+import type { CostSplit, ExpenseSummary } from './types';
+
+// --- Group Splitting ---
+//
+// Travelers are identified by name. A shared cost records who paid and how it's
+// divided; balances and transfers are worked out in the home currency.
+
+export interface Transfer {
+  from: string;
+  to: string;
+  amount: number;
+}
+
+// Balances this small are rounding left over from the conversions, not money owed
+const SETTLED = 0.005;
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+// Everyone sharing the cost gets an equal part
+export const createSplit = (travelers: string[], paidBy = travelers[0]): CostSplit => ({
+  paidBy,
+  mode: 'equal',
+  shares: Object.fromEntries(travelers.map(name => [name, 1]))
+});
+
+// Divides `amount` between the travelers. Exact amounts that don't add up to the
+// total are scaled to it, so the cost is always fully covered by someone.
+export const getSplitAmounts = (split: CostSplit, amount: number): { [traveler: string]: number } => {
+  const shares = Object.entries(split.shares).filter(([, share]) => share > 0);
+  const weight = shares.reduce((sum, [, share]) => sum + share, 0);
+  // Nobody's share recorded: the payer carries it alone
+  if (weight === 0) return { [split.paidBy]: amount };
+  return Object.fromEntries(shares.map(([name, share]) => [name, amount * share / weight]));
+};
+
+// What an exact split still has to place (negative when it's over the total)
+export const getUnassigned = (split: CostSplit, amount: number) =>
+  amount - Object.values(split.shares).reduce((sum, share) => sum + (share > 0 ? share : 0), 0);
+
+// Positive: the traveler is owed money; negative: they owe it
+export const getBalances = (byTraveler: ExpenseSummary['byTraveler']): { [traveler: string]: number } =>
+  Object.fromEntries(Object.entries(byTraveler).map(([name, { paid, owed }]) => [name, paid - owed]));
+
+// Pays the biggest debt into the biggest credit until everything's even. That never
+// takes more than one transfer fewer than the number of people involved.
+export const settleUp = (balances: { [traveler: string]: number }): Transfer[] => {
+  const open = Object.entries(balances)
+    .map(([name, balance]) => ({ name, balance: roundCents(balance) }))
+    .filter(({ balance }) => Math.abs(balance) > SETTLED);
+  const transfers: Transfer[] = [];
+
+  for (;;) {
+    const debtor = open.reduce((min, b) => (!min || b.balance < min.balance ? b : min), undefined as typeof open[number] | undefined);
+    const creditor = open.reduce((max, b) => (!max || b.balance > max.balance ? b : max), undefined as typeof open[number] | undefined);
+    if (!debtor || !creditor || debtor.balance > -SETTLED || creditor.balance < SETTLED) break;
+
+    const amount = roundCents(Math.min(-debtor.balance, creditor.balance));
+    transfers.push({ from: debtor.name, to: creditor.name, amount });
+    debtor.balance = roundCents(debtor.balance + amount);
+    creditor.balance = roundCents(creditor.balance - amount);
+  }
+
+  return transfers;
+};
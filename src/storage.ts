@@ -0,0 +1,478 @@
+import type { BackupData, Expense, RateHistory, StoredFile, TravelEvent, Trip, TripDetails } from './types';
+import { createTrip, getEventDateRange } from './trips';
+import { isObject, validateBudget, validateCashList, validateEvent, validateExpense } from './validation';
+import { isValidTimeZone } from './time';
+import { convertRates, type Rates } from './currency';
+
+// --- Schema ---
+//
+// One version number covers both the on-device database and backup files:
+//   1 - a single event list plus rates (localStorage `euro_travel_events` / `euro_travel_rates`)
+//   2 - trips owning their events and rates, stored per record in IndexedDB
+//   3 - rates are against the trip's home currency instead of always HKD
+//   4 - quick expenses per record, and a file store for photos kept on the device
+
+export const SCHEMA_VERSION = 4;
+
+const DB_NAME = 'euro-travel-pocket';
+const LEGACY_EVENTS_KEY = 'euro_travel_events';
+const LEGACY_RATES_KEY = 'euro_travel_rates';
+const TRIPS_KEY = 'euro_travel_trips';
+const ACTIVE_TRIP_KEY = 'euro_travel_active_trip';
+const CORRUPT_KEY_PREFIX = 'euro_travel_corrupt_';
+
+type StoredTrip = Omit<Trip, 'events' | 'expenses'> & { position: number };
+type StoredEvent = TravelEvent & { tripId: string };
+type StoredExpense = Expense & { tripId: string };
+
+// Loose shape of a backup file of any version, before migration
+export type RawBackup = Partial<Omit<BackupData, 'trip'>> & { trip?: Partial<TripDetails> };
+
+interface Migration {
+  version: number;
+  // Runs inside the IndexedDB versionchange transaction
+  upgradeDb?: (db: IDBDatabase, tx: IDBTransaction) => void;
+  // Converts a backup written by the previous version
+  upgradeBackup?: (backup: RawBackup) => RawBackup;
+}
+
+export interface LoadResult {
+  trips: Trip[];
+  activeTripId: string;
+  // Human readable notes about recovered or skipped data
+  warnings: string[];
+}
+
+export interface StorageBackend {
+  kind: 'indexeddb' | 'localstorage';
+  load: () => Promise<LoadResult>;
+  // Writes only what changed between two snapshots of the trips
+  sync: (prev: Trip[], next: Trip[], activeTripId: string) => Promise<void>;
+  // Photos and documents; sync deletes them with the expense or trip they belong to
+  putFile: (file: StoredFile) => Promise<void>;
+  getFile: (id: string) => Promise<StoredFile | undefined>;
+}
+
+// --- Record Validation ---
+
+// Returns null when the record is beyond repair; recoverable fields are coerced
+export const normalizeEvent = (raw: unknown): TravelEvent | null => validateEvent(raw).event || null;
+
+const normalizeTrip = (raw: unknown): Omit<Trip, 'events' | 'expenses'> | null => {
+  if (!isObject(raw)) return null;
+  if (typeof raw.id !== 'string' || !raw.id || typeof raw.name !== 'string') return null;
+
+  const homeCurrency = typeof raw.homeCurrency === 'string' && raw.homeCurrency ? raw.homeCurrency : undefined;
+  const base = createTrip({ homeCurrency });
+  const trip = { ...raw } as unknown as Partial<StoredTrip> & Pick<Trip, 'id' | 'name'> & { events?: unknown; expenses?: unknown };
+  delete trip.events;
+  delete trip.expenses;
+  delete trip.position;
+  return {
+    ...trip,
+    startDate: typeof raw.startDate === 'string' ? raw.startDate : '',
+    endDate: typeof raw.endDate === 'string' ? raw.endDate : '',
+    homeCurrency: base.homeCurrency,
+    homeTimeZone: typeof raw.homeTimeZone === 'string' && isValidTimeZone(raw.homeTimeZone) ? raw.homeTimeZone : base.homeTimeZone,
+    travelers: Array.isArray(raw.travelers) ? raw.travelers.filter((t): t is string => typeof t === 'string') : [],
+    rates: isObject(raw.rates) ? { ...base.rates, ...(raw.rates as Trip['rates']) } : base.rates,
+    rateHistory: isObject(raw.rateHistory) ? raw.rateHistory as RateHistory : undefined,
+    budget: validateBudget(raw.budget, []),
+    cash: validateCashList(raw.cash, [])
+  };
+};
+
+const toTripRecord = (trip: Trip, position: number): StoredTrip => {
+  const record: Partial<Trip> & StoredTrip = { ...trip, position };
+  delete record.events;
+  delete record.expenses;
+  return record;
+};
+
+// --- Legacy localStorage ---
+
+// Stashes unreadable raw data so it can still be recovered by hand
+const stashCorrupt = (label: string, raw: unknown) => {
+  try {
+    localStorage.setItem(`${CORRUPT_KEY_PREFIX}${label}_${Date.now()}`, typeof raw === 'string' ? raw : JSON.stringify(raw));
+  } catch (e) {
+    console.error("Failed to stash corrupt data", e);
+  }
+};
+
+const readLocalStorageTrips = (): LoadResult => {
+  const warnings: string[] = [];
+  const parse = (key: string) => {
+    const raw = localStorage.getItem(key);
+    if (raw === null) return undefined;
+    try {
+      return JSON.parse(raw) as unknown;
+    } catch (e) {
+      console.error(`Failed to parse ${key}`, e);
+      stashCorrupt(key, raw);
+      warnings.push(`Saved data in "${key}" was unreadable and has been set aside.`);
+      return undefined;
+    }
+  };
+
+  // The fallback stamps its trips with the schema version; a bare list is the interim v2 blob
+  const saved = parse(TRIPS_KEY);
+  let version = isObject(saved) && typeof saved.version === 'number' ? saved.version : 2;
+  let rawTrips = isObject(saved) ? saved.trips : saved;
+  if (rawTrips === undefined) {
+    version = 1;
+    // Schema v1: a single global event list, becomes the default trip
+    const legacyEvents = parse(LEGACY_EVENTS_KEY);
+    const legacyRates = parse(LEGACY_RATES_KEY);
+    if (legacyEvents === undefined && legacyRates === undefined) return { trips: [], activeTripId: '', warnings };
+
+    const legacyTrip = createTrip();
+    rawTrips = [{
+      ...legacyTrip,
+      ...getEventDateRange(Array.isArray(legacyEvents) ? legacyEvents as TravelEvent[] : []),
+      events: Array.isArray(legacyEvents) ? legacyEvents : [],
+      rates: { ...legacyTrip.rates, ...(isObject(legacyRates) ? legacyRates : {}) }
+    }];
+  }
+
+  const trips: Trip[] = [];
+  let skipped = 0;
+  (Array.isArray(rawTrips) ? rawTrips : []).forEach(rawTrip => {
+    const trip = normalizeTrip(version < 3 ? upgradeLegacyTrip(rawTrip) : rawTrip);
+    if (!trip) {
+      stashCorrupt('trip', rawTrip);
+      skipped++;
+      return;
+    }
+    const rawEvents = isObject(rawTrip) && Array.isArray(rawTrip.events) ? rawTrip.events : [];
+    const events: TravelEvent[] = [];
+    rawEvents.forEach(rawEvent => {
+      const event = normalizeEvent(rawEvent);
+      if (event) {
+        events.push(event);
+      } else {
+        stashCorrupt('event', rawEvent);
+        skipped++;
+      }
+    });
+    const rawExpenses = isObject(rawTrip) && Array.isArray(rawTrip.expenses) ? rawTrip.expenses : [];
+    const expenses: Expense[] = [];
+    rawExpenses.forEach(rawExpense => {
+      const expense = validateExpense(rawExpense);
+      if (expense) {
+        expenses.push(expense);
+      } else {
+        stashCorrupt('expense', rawExpense);
+        skipped++;
+      }
+    });
+    trips.push({ ...trip, events, expenses });
+  });
+  if (skipped > 0) warnings.push(`${skipped} damaged record(s) could not be read and were set aside.`);
+
+  return { trips, activeTripId: localStorage.getItem(ACTIVE_TRIP_KEY) || '', warnings };
+};
+
+// --- Migrations ---
+
+// Before v3 every rate was against HKD, whatever currency the trip named
+const LEGACY_RATE_BASE = 'HKD';
+
+// Converts legacy rates to the trip's currency, or makes the trip HKD again when there's
+// no rate to convert through, so totals stay what they were
+const upgradeLegacyRates = (homeCurrency: string | undefined, rates: unknown) => {
+  if (!homeCurrency || homeCurrency === LEGACY_RATE_BASE || !isObject(rates)) return {};
+  const converted = convertRates(rates as Rates, LEGACY_RATE_BASE, homeCurrency);
+  return converted ? { rates: converted } : { homeCurrency: LEGACY_RATE_BASE };
+};
+
+const upgradeLegacyTrip = (raw: unknown) => {
+  if (!isObject(raw)) return raw;
+  const { rates, homeCurrency } = upgradeLegacyRates(typeof raw.homeCurrency === 'string' ? raw.homeCurrency : undefined, raw.rates);
+  return { ...raw, rates: rates || raw.rates, homeCurrency: homeCurrency || raw.homeCurrency };
+};
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 2,
+    upgradeDb: db => {
+      db.createObjectStore('trips', { keyPath: 'id' });
+      const eventStore = db.createObjectStore('events', { keyPath: 'id' });
+      eventStore.createIndex('tripId', 'tripId');
+      db.createObjectStore('meta');
+      db.createObjectStore('quarantine', { autoIncrement: true });
+    },
+    upgradeBackup: backup => ({
+      ...backup,
+      trip: {
+        name: '',
+        homeCurrency: '',
+        homeTimeZone: '',
+        travelers: [],
+        ...getEventDateRange(Array.isArray(backup.events) ? backup.events : []),
+        ...backup.trip
+      }
+    })
+  },
+  {
+    version: 3,
+    upgradeDb: (_db, tx) => {
+      const cursorRequest = tx.objectStore('trips').openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) return;
+        const trip = cursor.value as StoredTrip;
+        const { rates, homeCurrency } = upgradeLegacyRates(trip.homeCurrency, trip.rates);
+        if (rates || homeCurrency) cursor.update({ ...trip, rates: rates || trip.rates, homeCurrency: homeCurrency || trip.homeCurrency });
+        cursor.continue();
+      };
+    },
+    // Backups from before trips had a currency are HKD ones
+    upgradeBackup: backup => {
+      const currency = backup.trip?.homeCurrency || LEGACY_RATE_BASE;
+      const { rates, homeCurrency } = upgradeLegacyRates(currency, backup.rates);
+      return {
+        ...backup,
+        rates: rates || backup.rates,
+        trip: { ...backup.trip, homeCurrency: homeCurrency || currency }
+      };
+    }
+  },
+  {
+    version: 4,
+    // Nothing to do for backups, older ones just have no expenses
+    upgradeDb: db => {
+      db.createObjectStore('expenses', { keyPath: 'id' }).createIndex('tripId', 'tripId');
+      db.createObjectStore('files', { keyPath: 'id' }).createIndex('tripId', 'tripId');
+    }
+  }
+];
+
+// Moves whatever localStorage held (v1 list, the interim trips blob or the fallback's
+// trips) into a database that has just been created, once every store exists. Rates
+// older than v3 are converted as they're read.
+// localStorage is left untouched as a recovery copy.
+const importLocalStorage = (tx: IDBTransaction) => {
+  const legacy = readLocalStorageTrips();
+  legacy.trips.forEach((trip, index) => {
+    tx.objectStore('trips').put(toTripRecord(trip, index));
+    trip.events.forEach(e => tx.objectStore('events').put({ ...e, tripId: trip.id }));
+    trip.expenses.forEach(x => tx.objectStore('expenses').put({ ...x, tripId: trip.id }));
+  });
+  if (legacy.activeTripId) tx.objectStore('meta').put(legacy.activeTripId, 'activeTripId');
+  // Reported by the next load()
+  if (legacy.warnings.length > 0) tx.objectStore('meta').put(legacy.warnings, 'pendingWarnings');
+};
+
+// Brings a parsed backup of any known version up to SCHEMA_VERSION
+export const migrateBackup = (backup: RawBackup): RawBackup => {
+  const version = typeof backup.version === 'number' ? backup.version : 1;
+  if (version > SCHEMA_VERSION) {
+    throw new Error(`This backup was made with a newer version of the app (v${version}). Please update first.`);
+  }
+  return MIGRATIONS
+    .filter(m => m.version > version && m.upgradeBackup)
+    .reduce((data, m) => ({ ...m.upgradeBackup!(data), version: m.version }), { ...backup, version });
+};
+
+// --- IndexedDB Backend ---
+
+const requestToPromise = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error || new Error("Transaction aborted"));
+});
+
+const openDatabase = () => new Promise<IDBDatabase>((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, SCHEMA_VERSION);
+  request.onupgradeneeded = (e) => {
+    MIGRATIONS
+      .filter(m => m.version > e.oldVersion && m.upgradeDb)
+      .forEach(m => m.upgradeDb!(request.result, request.transaction!));
+    if (e.oldVersion === 0) importLocalStorage(request.transaction!);
+  };
+  request.onsuccess = () => {
+    const db = request.result;
+    // Let a newer version in another tab upgrade the schema
+    db.onversionchange = () => db.close();
+    resolve(db);
+  };
+  request.onerror = () => reject(request.error);
+  request.onblocked = () => reject(new Error("Database upgrade blocked by another open tab."));
+});
+
+const createIndexedDbBackend = (db: IDBDatabase): StorageBackend => ({
+  kind: 'indexeddb',
+
+  load: async () => {
+    const readTx = db.transaction(['trips', 'events', 'expenses', 'meta'], 'readonly');
+    const [tripRecords, eventRecords, expenseRecords, activeTripId, pendingWarnings] = await Promise.all([
+      requestToPromise(readTx.objectStore('trips').getAll()),
+      requestToPromise(readTx.objectStore('events').getAll()),
+      requestToPromise(readTx.objectStore('expenses').getAll()),
+      requestToPromise(readTx.objectStore('meta').get('activeTripId')),
+      requestToPromise(readTx.objectStore('meta').get('pendingWarnings'))
+    ]);
+    const warnings: string[] = Array.isArray(pendingWarnings) ? pendingWarnings : [];
+
+    const quarantine: { store: string; record: unknown }[] = [];
+    const trips = new Map<string, Trip>();
+    const positions = new Map<string, number>();
+    (tripRecords as unknown[]).forEach(record => {
+      const trip = normalizeTrip(record);
+      if (trip) {
+        trips.set(trip.id, { ...trip, events: [], expenses: [] });
+        positions.set(trip.id, Number((record as StoredTrip).position) || 0);
+      } else {
+        quarantine.push({ store: 'trips', record });
+      }
+    });
+    (eventRecords as unknown[]).forEach(record => {
+      const trip = trips.get(String((record as StoredEvent)?.tripId));
+      const event = trip && normalizeEvent(record);
+      if (trip && event) {
+        trip.events.push(event);
+      } else {
+        quarantine.push({ store: 'events', record });
+      }
+    });
+    (expenseRecords as unknown[]).forEach(record => {
+      const trip = trips.get(String((record as StoredExpense)?.tripId));
+      const expense = trip && validateExpense(record);
+      if (trip && expense) {
+        trip.expenses.push(expense);
+      } else {
+        quarantine.push({ store: 'expenses', record });
+      }
+    });
+
+    // Move unreadable records out of the way instead of deleting them
+    if (quarantine.length > 0 || warnings.length > 0) {
+      const fixTx = db.transaction(['trips', 'events', 'expenses', 'meta', 'quarantine'], 'readwrite');
+      fixTx.objectStore('meta').delete('pendingWarnings');
+      quarantine.forEach(({ store, record }) => {
+        fixTx.objectStore('quarantine').add({ store, record, quarantinedAt: new Date().toISOString() });
+        const key = (record as { id?: unknown })?.id;
+        if (typeof key === 'string' || typeof key === 'number') fixTx.objectStore(store).delete(key);
+      });
+      await transactionDone(fixTx);
+    }
+
+    return {
+      trips: [...trips.values()].sort((a, b) => positions.get(a.id)! - positions.get(b.id)!),
+      activeTripId: typeof activeTripId === 'string' ? activeTripId : '',
+      warnings: quarantine.length > 0
+        ? [...warnings, `${quarantine.length} damaged record(s) could not be read and were set aside.`]
+        : warnings
+    };
+  },
+
+  sync: async (prev, next, activeTripId) => {
+    const tx = db.transaction(['trips', 'events', 'expenses', 'files', 'meta'], 'readwrite');
+    const tripStore = tx.objectStore('trips');
+    const eventStore = tx.objectStore('events');
+    const expenseStore = tx.objectStore('expenses');
+    const fileStore = tx.objectStore('files');
+    const prevById = new Map(prev.map((trip, index) => [trip.id, { trip, index }]));
+
+    next.forEach((trip, index) => {
+      const old = prevById.get(trip.id);
+      prevById.delete(trip.id);
+
+      const record = toTripRecord(trip, index);
+      if (!old || JSON.stringify(toTripRecord(old.trip, old.index)) !== JSON.stringify(record)) {
+        tripStore.put(record);
+      }
+
+      // Events are immutable in state, so an unchanged reference means nothing to write.
+      // Their files go with them, or when they're taken off the event.
+      const oldEvents = new Map((old?.trip.events || []).map(e => [e.id, e]));
+      trip.events.forEach(e => {
+        const oldEvent = oldEvents.get(e.id);
+        if (oldEvent !== e) eventStore.put({ ...e, tripId: trip.id });
+        oldEvent?.attachments?.forEach(a => {
+          if (!e.attachments?.some(kept => kept.id === a.id)) fileStore.delete(a.id);
+        });
+        oldEvents.delete(e.id);
+      });
+      oldEvents.forEach((e, id) => {
+        eventStore.delete(id);
+        e.attachments?.forEach(a => fileStore.delete(a.id));
+      });
+
+      // Same for expenses, whose receipt goes with them or when it's replaced
+      const oldExpenses = new Map((old?.trip.expenses || []).map(x => [x.id, x]));
+      trip.expenses.forEach(x => {
+        const oldExpense = oldExpenses.get(x.id);
+        if (oldExpense !== x) expenseStore.put({ ...x, tripId: trip.id });
+        if (oldExpense?.receiptId && oldExpense.receiptId !== x.receiptId) fileStore.delete(oldExpense.receiptId);
+        oldExpenses.delete(x.id);
+      });
+      oldExpenses.forEach((x, id) => {
+        expenseStore.delete(id);
+        if (x.receiptId) fileStore.delete(x.receiptId);
+      });
+    });
+
+    // Whatever is left in prevById was deleted
+    prevById.forEach(({ trip }) => {
+      tripStore.delete(trip.id);
+      trip.events.forEach(e => eventStore.delete(e.id));
+      trip.expenses.forEach(x => expenseStore.delete(x.id));
+      const fileKeys = fileStore.index('tripId').openKeyCursor(IDBKeyRange.only(trip.id));
+      fileKeys.onsuccess = () => {
+        const cursor = fileKeys.result;
+        if (!cursor) return;
+        fileStore.delete(cursor.primaryKey);
+        cursor.continue();
+      };
+    });
+
+    tx.objectStore('meta').put(activeTripId, 'activeTripId');
+    await transactionDone(tx);
+  },
+
+  putFile: async (file) => {
+    const tx = db.transaction('files', 'readwrite');
+    tx.objectStore('files').put(file);
+    await transactionDone(tx);
+  },
+
+  getFile: async (id) => {
+    const record = await requestToPromise(db.transaction('files', 'readonly').objectStore('files').get(id));
+    return record as StoredFile | undefined;
+  }
+});
+
+// --- localStorage Fallback ---
+
+const createLocalStorageBackend = (): StorageBackend => ({
+  kind: 'localstorage',
+  load: async () => readLocalStorageTrips(),
+  sync: async (_prev, next, activeTripId) => {
+    localStorage.setItem(TRIPS_KEY, JSON.stringify({ version: SCHEMA_VERSION, trips: next }));
+    localStorage.setItem(ACTIVE_TRIP_KEY, activeTripId);
+  },
+  putFile: async () => {
+    throw new Error("Photos need the offline database, which isn't available in this browser.");
+  },
+  getFile: async () => undefined
+});
+
+// Prefers IndexedDB; falls back to localStorage when it is unavailable (e.g. some private modes)
+export const openStorage = async (): Promise<{ storage: StorageBackend; warning?: string }> => {
+  if (typeof indexedDB === 'undefined') {
+    return { storage: createLocalStorageBackend(), warning: "Offline database is not available, using basic browser storage." };
+  }
+  try {
+    return { storage: createIndexedDbBackend(await openDatabase()) };
+  } catch (e) {
+    console.error("Failed to open IndexedDB", e);
+    return { storage: createLocalStorageBackend(), warning: "Could not open the offline database, using basic browser storage." };
+  }
+};
@@ -0,0 +1,104 @@
+// --- Date & Time Helpers ---
+
+// yyyy-MM-ddTHH:mm in the device's zone, the format of <input type="datetime-local">
+export const toLocalISOString = (date: Date) => {
+  const tzOffset = date.getTimezoneOffset() * 60000;
+  const localISOTime = (new Date(date.getTime() - tzOffset)).toISOString().slice(0, 16);
+  return localISOTime;
+};
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Offset of `timeZone` from UTC at the given instant, in minutes (e.g. +120 for Paris in summer)
+export const getTimeZoneOffset = (date: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric', month: '2-digit', day: '2-digit',
+    hour: '2-digit', minute: '2-digit', second: '2-digit'
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+};
+
+// Interprets a wall-clock time (yyyy-MM-ddTHH:mm[:ss]) in `timeZone` and returns the instant
+export const zonedTimeToDate = (wallTime: string, timeZone: string) => {
+  const asUtc = new Date(`${wallTime.length === 16 ? `${wallTime}:00` : wallTime}Z`);
+  // Two passes settle the offset around DST changes
+  let instant = new Date(asUtc.getTime() - getTimeZoneOffset(asUtc, timeZone) * 60000);
+  instant = new Date(asUtc.getTime() - getTimeZoneOffset(instant, timeZone) * 60000);
+  return instant;
+};
+
+// yyyy-MM-ddTHH:mm of an instant as seen in `timeZone`
+export const toWallTime = (date: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric', month: '2-digit', day: '2-digit',
+    hour: '2-digit', minute: '2-digit'
+  }).formatToParts(date);
+  const get = (type: string) => parts.find(p => p.type === type)?.value;
+  return `${get('year')}-${get('month')}-${get('day')}T${get('hour')}:${get('minute')}`;
+};
+
+export const getDeviceTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export const getSupportedTimeZones = (): string[] => {
+  try {
+    return Intl.supportedValuesOf('timeZone');
+  } catch {
+    return [getDeviceTimeZone(), 'UTC'];
+  }
+};
+
+// --- Event Times ---
+//
+// startTime/endTime are wall-clock times. With a time zone they mean that time in
+// that zone; without one (older events) they float in whatever zone the device is in.
+
+interface ZonedEvent {
+  startTime: string;
+  endTime: string;
+  timeZone?: string;
+  endTimeZone?: string;
+}
+
+export const toInstant = (wallTime: string, timeZone?: string) =>
+  timeZone ? zonedTimeToDate(wallTime, timeZone) : new Date(wallTime);
+
+export const getEventStart = (event: ZonedEvent) => toInstant(event.startTime, event.timeZone);
+
+// Arrival zone for transport, otherwise the event's own zone
+export const getEventEndZone = (event: ZonedEvent) => event.endTimeZone || event.timeZone;
+
+export const getEventEnd = (event: ZonedEvent) =>
+  event.endTime ? toInstant(event.endTime, getEventEndZone(event)) : null;
+
+// yyyy-MM-dd of an instant as seen in `timeZone` (device zone when omitted)
+export const getDateInZone = (date: Date, timeZone?: string) =>
+  new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(date);
+
+export const formatTimeInZone = (date: Date, timeZone?: string) =>
+  date.toLocaleTimeString([], { timeZone, hour: '2-digit', minute: '2-digit' });
+
+// Short zone label like "CEST" or "GMT+2"
+export const getZoneAbbreviation = (date: Date, timeZone?: string) =>
+  new Intl.DateTimeFormat('en-GB', { timeZone, timeZoneName: 'short' })
+    .formatToParts(date)
+    .find(p => p.type === 'timeZoneName')?.value || '';
+
+export const formatDuration = (ms: number) => {
+  const minutes = Math.round(ms / 60000);
+  const h = Math.floor(Math.abs(minutes) / 60);
+  const m = Math.abs(minutes) % 60;
+  return `${minutes < 0 ? '-' : ''}${h > 0 ? `${h}h ` : ''}${m}m`;
+};
@@ -0,0 +1,79 @@
+import type { RateHistory, TravelEvent, Trip, TripDetails } from './types';
+import { getDeviceTimeZone } from './time';
+import { convertRates } from './currency';
+import { convertBudget } from './budget';
+
+// Rough starting rates, kept against HKD; new trips get them converted to their home currency
+export const DEFAULT_RATES: { [key: string]: number } = {
+  'EUR': 8.5,
+  'USD': 7.8,
+  'GBP': 10.1,
+  'JPY': 0.052,
+  'KRW': 0.006,
+  'TWD': 0.25,
+  'CNY': 1.1,
+  'HKD': 1.0
+};
+
+export const DEFAULT_HOME_CURRENCY = 'HKD';
+
+export const getDefaultRates = (homeCurrency: string) =>
+  convertRates(DEFAULT_RATES, DEFAULT_HOME_CURRENCY, homeCurrency) || { [homeCurrency]: 1.0 };
+
+export const createTrip = (details: Partial<TripDetails> = {}): Trip => {
+  const homeCurrency = details.homeCurrency || DEFAULT_HOME_CURRENCY;
+  return {
+    id: crypto.randomUUID(),
+    name: details.name || 'My Trip',
+    startDate: details.startDate || '',
+    endDate: details.endDate || '',
+    homeCurrency,
+    homeTimeZone: details.homeTimeZone || getDeviceTimeZone(),
+    travelers: details.travelers || [],
+    events: [],
+    expenses: [],
+    rates: { ...getDefaultRates(homeCurrency) }
+  };
+};
+
+// Converts each day of imported rates, dropping days that don't quote the new currency
+export const convertRateHistory = (history: RateHistory | undefined, from: string, to: string): RateHistory | undefined => {
+  if (!history) return undefined;
+  const converted: RateHistory = {};
+  Object.entries(history).forEach(([date, rates]) => {
+    const day = convertRates(rates, from, to);
+    if (day) converted[date] = day;
+  });
+  return converted;
+};
+
+// Switches the home currency and converts the trip's rates, limits and card rates to match. `rate`
+// is what one unit of the new currency is worth in the old one, for a trip that has no
+// rate for it yet; without any the switch is refused rather than losing every rate.
+export const changeHomeCurrency = (trip: Trip, homeCurrency: string, rate = trip.rates[homeCurrency]): Trip => {
+  if (trip.homeCurrency === homeCurrency) return trip;
+  if (!rate) throw new Error(`There's no ${homeCurrency} rate to convert the trip's rates with.`);
+  const rates = convertRates({ ...trip.rates, [homeCurrency]: rate }, trip.homeCurrency, homeCurrency)!;
+  const rateHistory = convertRateHistory(trip.rateHistory, trip.homeCurrency, homeCurrency);
+  const budget = convertBudget(trip.budget, rate);
+  // Card rates are in home-currency units too
+  const events = trip.events.map(e => e.cardRate
+    ? { ...e, cardRate: Number((e.cardRate / rate).toPrecision(6)) }
+    : e);
+  return { ...trip, homeCurrency, rates, rateHistory, budget, events };
+};
+
+// Derives a yyyy-MM-dd range from the events, used when migrating old single-list data
+export const getEventDateRange = (events: TravelEvent[]) => {
+  const dates = events.map(e => e.startTime?.slice(0, 10)).filter(Boolean).sort();
+  return { startDate: dates[0] || '', endDate: dates[dates.length - 1] || '' };
+};
+
+export const getTripDetails = (trip: Trip): TripDetails => ({
+  name: trip.name,
+  startDate: trip.startDate,
+  endDate: trip.endDate,
+  homeCurrency: trip.homeCurrency,
+  homeTimeZone: trip.homeTimeZone,
+  travelers: trip.travelers
+});
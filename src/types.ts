@@ -0,0 +1,199 @@
+export type EventType = 'activity' | 'transport' | 'dining' | 'lodging';
+
+export type TransportMode = 'train' | 'bus' | 'flight';
+
+// Event types double as expense categories, so event costs and quick expenses share one breakdown
+export type ExpenseCategory = EventType | 'shopping' | 'other';
+
+export type SplitMode = 'equal' | 'shares' | 'exact';
+
+// Who paid for a shared cost and how it's divided between travelers (by name)
+export interface CostSplit {
+  paidBy: string;
+  mode: SplitMode;
+  // equal: 1 per traveler sharing it; shares: a weight each; exact: an amount each, in the cost's currency
+  shares: { [traveler: string]: number };
+}
+
+// A ticket or other file kept with an event; the content is in the device's file store
+export interface Attachment {
+  id: string; // StoredFile id
+  name: string;
+  type: string; // MIME type
+}
+
+export type PaymentStatus = 'unpaid' | 'deposit' | 'paid';
+
+export type PaymentMethod = 'card' | 'cash' | 'prepaid';
+
+// One vehicle of a journey, e.g. the Milan→Zurich EuroCity of a Milan→Paris trip
+export interface TransportLeg {
+  id: string;
+  mode: TransportMode;
+  carrier?: string; // 'SBB', 'easyJet'
+  number?: string; // 'EC 317', 'U2 5124'
+  from: string; // departure station or airport
+  to: string;
+  departureTime: string; // wall-clock, like TravelEvent.startTime
+  arrivalTime: string;
+  departureTimeZone?: string;
+  arrivalTimeZone?: string; // defaults to departureTimeZone
+  platform?: string;
+  seat?: string;
+}
+
+export interface TravelEvent {
+  id: string;
+  title: string;
+  location: string;
+  startTime: string; // ISO string
+  endTime: string; // ISO string
+  // IANA zone the times are in, e.g. 'Europe/Paris'; floating device time when missing
+  timeZone?: string;
+  endTimeZone?: string; // arrival zone for transport, defaults to timeZone
+  type: EventType;
+  notes: string;
+  isCashOnly: boolean;
+  cost: number; // planned: typed in, estimated by the AI or read from a booking
+  currency: string; // ISO code e.g. 'EUR', 'USD', 'JPY'
+  actualCost?: number; // what was really paid, in `currency`
+  paymentStatus?: PaymentStatus; // unpaid when missing
+  paymentMethod?: PaymentMethod;
+  cardRate?: number; // home-currency units per unit the card actually charged
+  split?: CostSplit; // only shared costs have one
+  attachments?: Attachment[];
+  
+  // Smart Content
+  imageUrl?: string;
+  mustDos?: string[];
+  warnings?: string[];
+  
+  // Transport specific
+  transportMode?: TransportMode;
+  seatInfo?: string; 
+  platform?: string;
+  transferInfo?: string; 
+  ticketFileRef?: string; 
+  // Ordered legs of a multi-leg journey; the event's times span first departure to last arrival
+  legs?: TransportLeg[];
+
+  // Lodging specific: startTime is check-in and endTime check-out
+  address?: string;
+  confirmationCode?: string;
+  costPerNight?: number; // when set, cost is this times the number of nights
+  spreadCost?: boolean; // count the cost against each night instead of the check-in day
+}
+
+export interface Trip {
+  id: string;
+  name: string;
+  startDate: string; // yyyy-MM-dd, may be empty
+  endDate: string; // yyyy-MM-dd, may be empty
+  homeCurrency: string;
+  homeTimeZone: string; // IANA zone used by the "home time" toggle
+  travelers: string[];
+  events: TravelEvent[];
+  expenses: Expense[];
+  rates: { [key: string]: number };
+  // Imported rates by yyyy-MM-dd date, against homeCurrency like `rates`
+  rateHistory?: RateHistory;
+  budget?: Budget;
+  cash?: CashEntry[];
+}
+
+// Cash coming into the wallet: from an ATM, or exchanged for other cash
+export interface CashEntry {
+  id: string;
+  date: string; // yyyy-MM-dd
+  amount: number; // cash received
+  currency: string;
+  // Exchanges only: the cash handed over, taken out of that currency's cash
+  fromAmount?: number;
+  fromCurrency?: string;
+  note?: string;
+}
+
+// Spending limits in the home currency; a limit left out isn't checked
+export interface Budget {
+  total?: number;
+  perDay?: number;
+  byType?: { [type in EventType]?: number };
+}
+
+export type RateHistory = { [date: string]: { [currency: string]: number } };
+
+export type TripDetails = Omit<Trip, 'id' | 'events' | 'expenses' | 'rates' | 'rateHistory' | 'budget' | 'cash'>;
+
+// A quick cost outside the itinerary: a coffee, a metro ticket, a souvenir
+export interface Expense {
+  id: string;
+  title: string;
+  amount: number;
+  currency: string;
+  category: ExpenseCategory;
+  date: string; // yyyy-MM-dd
+  eventId?: string; // the itinerary event it belongs to, e.g. drinks at a concert
+  receiptId?: string; // photo in the device's file store, not part of the record
+  paymentMethod?: PaymentMethod;
+  split?: CostSplit;
+}
+
+// A photo or document kept on the device, outside the trip records
+export interface StoredFile {
+  id: string;
+  tripId: string;
+  name: string;
+  blob: Blob;
+}
+
+// In the trip's home currency; `actual` falls back to the plan until a payment is recorded
+export interface SpendTotals {
+  planned: number;
+  actual: number;
+}
+
+export interface ExpenseSummary {
+  // In the trip's home currency, as are the daily amounts
+  total: number;
+  planned: number;
+  details: { [currency: string]: number };
+  // Spent per yyyy-MM-dd, with spread stays split across their nights
+  byDate: { [date: string]: SpendTotals };
+  byCategory: { [category in ExpenseCategory]?: SpendTotals };
+  // Shared costs only: what each traveler paid and what their share came to
+  byTraveler: { [traveler: string]: { paid: number; owed: number } };
+}
+
+export interface Suggestion {
+  title: string;
+  location: string;
+  startTime: string; 
+  dayOffset: number; 
+  type: EventType;
+  cost: number;
+  currency?: string;
+  notes: string;
+  reason: string;
+}
+
+export interface BackupData {
+  app: string;
+  version: number;
+  timestamp: string;
+  trip?: TripDetails;
+  events: TravelEvent[];
+  expenses?: Expense[];
+  rates: { [key: string]: number };
+  rateHistory?: RateHistory;
+  budget?: Budget;
+  cash?: CashEntry[];
+  // Only when the backup was saved with its files
+  files?: BackupFile[];
+}
+
+export interface BackupFile {
+  id: string;
+  name: string;
+  type: string;
+  data: string; // base64
+}
@@ -0,0 +1,555 @@
+import type { Attachment, BackupFile, Budget, CashEntry, CostSplit, EventType, Expense, ExpenseCategory, PaymentMethod, PaymentStatus, RateHistory, SplitMode, TransportLeg, TransportMode, TravelEvent, TripDetails } from './types';
+import { isValidTimeZone } from './time';
+
+// --- Types ---
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+export interface EventValidation {
+  // Undefined when the row could not be repaired
+  event?: TravelEvent;
+  errors: FieldError[];
+  // Recoverable problems that were coerced, e.g. "cost: '12,50' → 12.5"
+  fixes: string[];
+}
+
+export interface ImportReport {
+  imported: number;
+  fixed: { title: string; fixes: string[] }[];
+  rejected: { index: number; title: string; errors: FieldError[]; raw: unknown }[];
+  // Problems outside the event list (rates, trip details)
+  notes: string[];
+}
+
+// --- Helpers ---
+
+export const EVENT_TYPES: EventType[] = ['activity', 'transport', 'dining', 'lodging'];
+const TRANSPORT_MODES = ['train', 'bus', 'flight'] as const;
+export const EXPENSE_CATEGORIES: ExpenseCategory[] = [...EVENT_TYPES, 'shopping', 'other'];
+export const PAYMENT_STATUSES: PaymentStatus[] = ['unpaid', 'deposit', 'paid'];
+export const PAYMENT_METHODS: PaymentMethod[] = ['card', 'cash', 'prepaid'];
+export const SPLIT_MODES: SplitMode[] = ['equal', 'shares', 'exact'];
+
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Compares names typed by hand: "Roma Termini" and "roma-termini" are the same place
+export const normalizeName = (name: string) => (name || '').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '');
+
+const describe = (value: unknown) => {
+  const text = typeof value === 'string' ? `'${value}'` : JSON.stringify(value);
+  return text && text.length > 30 ? `${text.slice(0, 27)}...` : text;
+};
+
+// Accepts 12.5, "12.50", "12,50", "€ 1,234.50" and "1.234,50"
+export const coerceAmount = (value: unknown): number | null => {
+  if (typeof value === 'number') return isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+  let clean = value.replace(/[^\d.,-]/g, '');
+  if (!clean) return null;
+  const lastComma = clean.lastIndexOf(',');
+  const lastDot = clean.lastIndexOf('.');
+  if (lastComma > lastDot) {
+    // Comma is the decimal separator
+    clean = clean.replace(/\./g, '').replace(',', '.');
+  } else {
+    clean = clean.replace(/,/g, '');
+  }
+  const amount = Number(clean);
+  return isFinite(amount) ? amount : null;
+};
+
+// Symbols and local abbreviations that identify a currency on their own
+const CURRENCY_SYMBOLS: [RegExp, string][] = [
+  [/€|\beuros?\b/i, 'EUR'],
+  [/£/, 'GBP'],
+  [/CHF|\bFr\.|\bSFr\b/i, 'CHF'],
+  [/zł|\bzl\b/i, 'PLN'],
+  [/Kč|\bKc\b/i, 'CZK'],
+  [/\bFt\b/i, 'HUF'],
+  [/HK\$/, 'HKD'],
+  [/US\$/, 'USD'],
+  [/¥|円/, 'JPY'],
+  [/₩/, 'KRW'],
+  [/\$/, 'USD']
+];
+
+// "€30", "30 EUR", "CHF 12.50" → amount plus the currency when the text names one
+export const coerceMoney = (value: unknown): { amount: number; currency?: string } | null => {
+  const amount = coerceAmount(value);
+  if (amount === null) return null;
+  if (typeof value !== 'string') return { amount };
+  const code = value.match(/\b([A-Z]{3})\b/)?.[1];
+  const symbol = CURRENCY_SYMBOLS.find(([pattern]) => pattern.test(value))?.[1];
+  return { amount, currency: code || symbol };
+};
+
+export const isValidDateTime = (value: unknown): value is string =>
+  typeof value === 'string' && value.length >= 10 && !isNaN(Date.parse(value));
+
+// --- Field Rules ---
+//
+// Each rule returns the value to keep (undefined drops an optional field) or throws
+// a message when the field is invalid. `fix` records a coercion.
+
+type FieldRule = (value: unknown, fix: (message: string) => void, raw: Record<string, unknown>) => unknown;
+
+class FieldInvalid extends Error {}
+
+const optionalString: FieldRule = (value, fix) => {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number') {
+    fix(`converted ${describe(value)} to text`);
+    return String(value);
+  }
+  fix(`dropped ${describe(value)}`);
+  return undefined;
+};
+
+const optionalStringList: FieldRule = (value, fix) => {
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value)) {
+    fix(`dropped ${describe(value)}, expected a list`);
+    return undefined;
+  }
+  const items = value.filter((item): item is string => typeof item === 'string');
+  if (items.length !== value.length) fix('dropped non-text entries');
+  return items;
+};
+
+const optionalTimeZone: FieldRule = (value, fix) => {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value === 'string' && isValidTimeZone(value)) return value;
+  fix(`dropped unknown time zone ${describe(value)}`);
+  return undefined;
+};
+
+const optionalAmount: FieldRule = (value, fix) => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const amount = coerceAmount(value);
+  if (amount === null || amount < 0) {
+    fix(`dropped ${describe(value)}`);
+    return undefined;
+  }
+  if (typeof value !== 'number') fix(`${describe(value)} → ${amount}`);
+  return amount;
+};
+
+const optionalChoice = (choices: readonly string[]): FieldRule => (value, fix) => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const lower = typeof value === 'string' ? value.trim().toLowerCase() : '';
+  if (choices.includes(lower)) {
+    if (lower !== value) fix(`${describe(value)} → '${lower}'`);
+    return lower;
+  }
+  fix(`dropped ${describe(value)}, expected one of ${choices.join(', ')}`);
+  return undefined;
+};
+
+const optionalFlag: FieldRule = (value, fix) => {
+  if (value === undefined || value === null || typeof value === 'boolean') return value ?? undefined;
+  const flag = value === 'true' || value === 1 || value === 'yes';
+  fix(`${describe(value)} → ${flag}`);
+  return flag;
+};
+
+// The files themselves aren't checked here; one missing from the device shows when opened
+const optionalAttachments: FieldRule = (value, fix) => {
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value)) {
+    fix(`dropped ${describe(value)}, expected a list of files`);
+    return undefined;
+  }
+  const attachments: Attachment[] = value
+    .filter(item => isObject(item) && typeof item.id === 'string' && item.id && typeof item.name === 'string')
+    .map(item => ({ id: item.id, name: item.name, type: typeof item.type === 'string' ? item.type : '' }));
+  if (attachments.length !== value.length) fix('dropped unreadable files');
+  return attachments.length > 0 ? attachments : undefined;
+};
+
+// A split needs a payer; shares that aren't positive numbers are left out
+const parseSplit = (value: unknown): CostSplit | undefined => {
+  if (!isObject(value) || typeof value.paidBy !== 'string' || !value.paidBy.trim()) return undefined;
+  const shares: CostSplit['shares'] = {};
+  if (isObject(value.shares)) {
+    Object.entries(value.shares).forEach(([name, share]) => {
+      const amount = coerceAmount(share);
+      if (name.trim() && amount !== null && amount > 0) shares[name.trim()] = amount;
+    });
+  }
+  return {
+    paidBy: value.paidBy.trim(),
+    mode: SPLIT_MODES.includes(value.mode as SplitMode) ? value.mode as SplitMode : 'equal',
+    shares
+  };
+};
+
+const optionalSplit: FieldRule = (value, fix) => {
+  if (value === undefined || value === null) return undefined;
+  const split = parseSplit(value);
+  if (!split) fix(`dropped ${describe(value)}, expected who paid and the shares`);
+  return split;
+};
+
+// Legs missing either time can't be placed on the timeline and are dropped
+const optionalLegs: FieldRule = (value, fix) => {
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value)) {
+    fix(`dropped ${describe(value)}, expected a list of legs`);
+    return undefined;
+  }
+  const legs: TransportLeg[] = [];
+  value.forEach((raw, i) => {
+    if (!isObject(raw) || !isValidDateTime(raw.departureTime) || !isValidDateTime(raw.arrivalTime)) {
+      fix(`dropped leg ${i + 1}, it needs a departure and arrival time`);
+      return;
+    }
+    const text = (field: string) => optionalString(raw[field], message => fix(`leg ${i + 1} ${field}: ${message}`), raw) as string | undefined;
+    const zone = (field: string) => optionalTimeZone(raw[field], message => fix(`leg ${i + 1} ${field}: ${message}`), raw) as string | undefined;
+    const mode = typeof raw.mode === 'string' ? raw.mode.toLowerCase() : '';
+    if (mode && !(TRANSPORT_MODES as readonly string[]).includes(mode)) fix(`leg ${i + 1} mode: ${describe(raw.mode)} → 'train'`);
+    legs.push({
+      id: typeof raw.id === 'string' && raw.id ? raw.id : crypto.randomUUID(),
+      mode: (TRANSPORT_MODES as readonly string[]).includes(mode) ? mode as TransportMode : 'train',
+      carrier: text('carrier'),
+      number: text('number'),
+      from: text('from') || '',
+      to: text('to') || '',
+      departureTime: raw.departureTime,
+      arrivalTime: raw.arrivalTime,
+      departureTimeZone: zone('departureTimeZone'),
+      arrivalTimeZone: zone('arrivalTimeZone'),
+      platform: text('platform'),
+      seat: text('seat')
+    });
+  });
+  return legs.length > 0 ? legs : undefined;
+};
+
+const EVENT_FIELDS: { [field in keyof TravelEvent]-?: FieldRule } = {
+  id: (value, fix) => {
+    if (typeof value === 'string' && value) return value;
+    fix('generated a new id');
+    return crypto.randomUUID();
+  },
+  title: (value, fix) => {
+    if (typeof value === 'string' && value.trim()) return value;
+    if (typeof value === 'number') return String(value);
+    fix("set to 'Untitled'");
+    return 'Untitled';
+  },
+  location: (value, fix) => optionalString(value, fix, {}) ?? '',
+  startTime: (value) => {
+    if (value === undefined || value === null || value === '') throw new FieldInvalid('is required');
+    if (!isValidDateTime(value)) throw new FieldInvalid(`${describe(value)} is not a valid date/time`);
+    return value;
+  },
+  endTime: (value, fix) => {
+    if (value === undefined || value === null || value === '') return '';
+    if (isValidDateTime(value)) return value;
+    fix(`cleared invalid ${describe(value)}`);
+    return '';
+  },
+  timeZone: optionalTimeZone,
+  endTimeZone: optionalTimeZone,
+  type: (value, fix) => {
+    if (EVENT_TYPES.includes(value as EventType)) return value;
+    const lower = typeof value === 'string' ? value.trim().toLowerCase() : '';
+    if (EVENT_TYPES.includes(lower as EventType)) {
+      fix(`${describe(value)} → '${lower}'`);
+      return lower;
+    }
+    throw new FieldInvalid(`${describe(value)} is not one of ${EVENT_TYPES.join(', ')}`);
+  },
+  notes: (value, fix) => optionalString(value, fix, {}) ?? '',
+  isCashOnly: (value, fix) => {
+    if (typeof value === 'boolean') return value;
+    if (value === undefined || value === null) return false;
+    const flag = value === 'true' || value === 1 || value === 'yes';
+    fix(`${describe(value)} → ${flag}`);
+    return flag;
+  },
+  cost: (value, fix) => {
+    if (value === undefined || value === null || value === '') return 0;
+    const amount = coerceAmount(value);
+    if (amount === null) throw new FieldInvalid(`${describe(value)} is not a number`);
+    if (amount < 0) throw new FieldInvalid('cannot be negative');
+    if (typeof value !== 'number') fix(`${describe(value)} → ${amount}`);
+    return amount;
+  },
+  currency: (value, fix, raw) => {
+    if (typeof value === 'string' && /^[A-Z]{3}$/.test(value)) return value;
+    const upper = typeof value === 'string' ? value.trim().toUpperCase() : '';
+    if (/^[A-Z]{3}$/.test(upper)) {
+      fix(`${describe(value)} → '${upper}'`);
+      return upper;
+    }
+    if (!upper) {
+      // Without a cost the currency doesn't matter yet
+      if (!coerceAmount(raw.cost)) {
+        fix("set to 'EUR'");
+        return 'EUR';
+      }
+      throw new FieldInvalid('is required when there is a cost');
+    }
+    throw new FieldInvalid(`${describe(value)} is not a 3-letter currency code`);
+  },
+  actualCost: optionalAmount,
+  paymentStatus: optionalChoice(PAYMENT_STATUSES),
+  paymentMethod: optionalChoice(PAYMENT_METHODS),
+  cardRate: optionalAmount,
+  split: optionalSplit,
+  imageUrl: optionalString,
+  mustDos: optionalStringList,
+  warnings: optionalStringList,
+  transportMode: (value, fix) => {
+    if (value === undefined || value === null || value === '') return undefined;
+    const lower = typeof value === 'string' ? value.toLowerCase() : '';
+    if ((TRANSPORT_MODES as readonly string[]).includes(lower)) return lower;
+    fix(`dropped unknown mode ${describe(value)}`);
+    return undefined;
+  },
+  seatInfo: optionalString,
+  platform: optionalString,
+  transferInfo: optionalString,
+  ticketFileRef: optionalString,
+  legs: optionalLegs,
+  attachments: optionalAttachments,
+  address: optionalString,
+  confirmationCode: optionalString,
+  costPerNight: optionalAmount,
+  spreadCost: optionalFlag
+};
+
+// --- Validators ---
+
+export const validateEvent = (raw: unknown): EventValidation => {
+  if (!isObject(raw)) return { errors: [{ field: 'event', message: `${describe(raw)} is not an object` }], fixes: [] };
+
+  const errors: FieldError[] = [];
+  const fixes: string[] = [];
+  const event: Record<string, unknown> = {};
+
+  (Object.keys(EVENT_FIELDS) as (keyof TravelEvent)[]).forEach(field => {
+    try {
+      const value = EVENT_FIELDS[field](raw[field], message => fixes.push(`${field}: ${message}`), raw);
+      if (value !== undefined) event[field] = value;
+    } catch (e) {
+      if (!(e instanceof FieldInvalid)) throw e;
+      errors.push({ field, message: e.message });
+    }
+  });
+
+  // Anything not in the schema is dropped rather than carried into state
+  const unknown = Object.keys(raw).filter(key => !(key in EVENT_FIELDS));
+  if (unknown.length > 0) fixes.push(`ignored unknown field(s): ${unknown.join(', ')}`);
+
+  return errors.length > 0 ? { errors, fixes } : { event: event as unknown as TravelEvent, errors, fixes };
+};
+
+export const validateRates = (raw: unknown, notes: string[]): { [key: string]: number } => {
+  if (raw === undefined || raw === null) return {};
+  if (!isObject(raw)) {
+    notes.push('Exchange rates were not a list of currencies and were ignored.');
+    return {};
+  }
+  const rates: { [key: string]: number } = {};
+  Object.entries(raw).forEach(([currency, value]) => {
+    const code = currency.trim().toUpperCase();
+    const rate = coerceAmount(value);
+    if (!/^[A-Z]{3}$/.test(code) || rate === null || rate <= 0) {
+      notes.push(`Skipped exchange rate ${currency}: ${describe(value)}.`);
+      return;
+    }
+    rates[code] = rate;
+  });
+  return rates;
+};
+
+// Null when there's no usable amount, currency or date; the rest is coerced
+export const validateExpense = (raw: unknown): Expense | null => {
+  if (!isObject(raw)) return null;
+  const amount = coerceAmount(raw.amount);
+  const currency = typeof raw.currency === 'string' ? raw.currency.trim().toUpperCase() : '';
+  const date = typeof raw.date === 'string' ? raw.date.slice(0, 10) : '';
+  if (amount === null || amount < 0 || !/^[A-Z]{3}$/.test(currency) || !/^\d{4}-\d{2}-\d{2}$/.test(date) || !isValidDateTime(date)) return null;
+  const text = (value: unknown) => typeof value === 'string' && value ? value : undefined;
+  return {
+    id: text(raw.id) || crypto.randomUUID(),
+    title: text(raw.title) || '',
+    amount,
+    currency,
+    category: EXPENSE_CATEGORIES.includes(raw.category as ExpenseCategory) ? raw.category as ExpenseCategory : 'other',
+    date,
+    eventId: text(raw.eventId),
+    receiptId: text(raw.receiptId),
+    paymentMethod: PAYMENT_METHODS.includes(raw.paymentMethod as PaymentMethod) ? raw.paymentMethod as PaymentMethod : undefined,
+    split: parseSplit(raw.split)
+  };
+};
+
+export const validateExpenseList = (raw: unknown, notes: string[]): Expense[] => {
+  if (raw === undefined || raw === null) return [];
+  if (!Array.isArray(raw)) {
+    notes.push('Expenses were not a list and were ignored.');
+    return [];
+  }
+  const expenses = raw.map(validateExpense).filter((expense): expense is Expense => !!expense);
+  if (expenses.length < raw.length) notes.push(`Skipped ${raw.length - expenses.length} unreadable expense(s).`);
+  return expenses;
+};
+
+// Per-day rates; a long history would flood the report, so problems are counted instead
+export const validateRateHistory = (raw: unknown, notes: string[]): RateHistory | undefined => {
+  if (raw === undefined || raw === null) return undefined;
+  if (!isObject(raw)) {
+    notes.push('Imported rate history was not a list of dates and was ignored.');
+    return undefined;
+  }
+  const history: RateHistory = {};
+  let skipped = 0;
+  Object.entries(raw).forEach(([date, day]) => {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || !isValidDateTime(date)) {
+      skipped++;
+      return;
+    }
+    const dayNotes: string[] = [];
+    const rates = validateRates(day, dayNotes);
+    skipped += dayNotes.length;
+    if (Object.keys(rates).length > 0) history[date] = rates;
+  });
+  if (skipped > 0) notes.push(`Skipped ${skipped} unreadable entr${skipped === 1 ? 'y' : 'ies'} in the imported rate history.`);
+  return history;
+};
+
+// Null without a positive amount, a currency and a date; a half-filled exchange source is dropped
+export const validateCashEntry = (raw: unknown): CashEntry | null => {
+  if (!isObject(raw)) return null;
+  const amount = coerceAmount(raw.amount);
+  const code = (value: unknown) => typeof value === 'string' && /^[A-Z]{3}$/.test(value.trim().toUpperCase()) ? value.trim().toUpperCase() : undefined;
+  const currency = code(raw.currency);
+  const date = typeof raw.date === 'string' ? raw.date.slice(0, 10) : '';
+  if (amount === null || amount <= 0 || !currency || !/^\d{4}-\d{2}-\d{2}$/.test(date) || !isValidDateTime(date)) return null;
+  const fromAmount = coerceAmount(raw.fromAmount);
+  const fromCurrency = code(raw.fromCurrency);
+  const isExchange = fromAmount !== null && fromAmount > 0 && !!fromCurrency;
+  return {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : crypto.randomUUID(),
+    date,
+    amount,
+    currency,
+    fromAmount: isExchange ? fromAmount : undefined,
+    fromCurrency: isExchange ? fromCurrency : undefined,
+    note: typeof raw.note === 'string' && raw.note ? raw.note : undefined
+  };
+};
+
+export const validateCashList = (raw: unknown, notes: string[]): CashEntry[] | undefined => {
+  if (raw === undefined || raw === null) return undefined;
+  if (!Array.isArray(raw)) {
+    notes.push('Cash withdrawals were not a list and were ignored.');
+    return undefined;
+  }
+  const entries = raw.map(validateCashEntry).filter((entry): entry is CashEntry => !!entry);
+  if (entries.length < raw.length) notes.push(`Skipped ${raw.length - entries.length} unreadable cash withdrawal(s).`);
+  return entries;
+};
+
+export const validateBackupFiles = (raw: unknown, notes: string[]): BackupFile[] | undefined => {
+  if (raw === undefined || raw === null) return undefined;
+  if (!Array.isArray(raw)) {
+    notes.push('Attached files were not a list and were ignored.');
+    return undefined;
+  }
+  const files = raw.filter((file): file is BackupFile => isObject(file)
+    && typeof file.id === 'string' && !!file.id
+    && typeof file.name === 'string'
+    && typeof file.type === 'string'
+    && typeof file.data === 'string');
+  if (files.length < raw.length) notes.push(`Skipped ${raw.length - files.length} unreadable attached file(s).`);
+  return files;
+};
+
+// Only positive limits are kept; a budget without any is dropped
+export const validateBudget = (raw: unknown, notes: string[]): Budget | undefined => {
+  if (raw === undefined || raw === null) return undefined;
+  if (!isObject(raw)) {
+    notes.push('The budget was not a set of limits and was ignored.');
+    return undefined;
+  }
+  const limit = (value: unknown, label: string) => {
+    if (value === undefined || value === null || value === '') return undefined;
+    const amount = coerceAmount(value);
+    if (amount === null || amount <= 0) {
+      notes.push(`Skipped budget limit ${label}: ${describe(value)}.`);
+      return undefined;
+    }
+    return amount;
+  };
+
+  const byType: Budget['byType'] = {};
+  if (isObject(raw.byType)) {
+    Object.entries(raw.byType).forEach(([type, value]) => {
+      if (!EVENT_TYPES.includes(type as EventType)) {
+        notes.push(`Skipped budget limit for unknown type ${describe(type)}.`);
+        return;
+      }
+      const amount = limit(value, type);
+      if (amount) byType[type as EventType] = amount;
+    });
+  }
+
+  const budget: Budget = { total: limit(raw.total, 'total'), perDay: limit(raw.perDay, 'per day') };
+  if (Object.keys(byType).length > 0) budget.byType = byType;
+  return budget.total || budget.perDay || budget.byType ? budget : undefined;
+};
+
+export const validateTripDetails = (raw: unknown, notes: string[]): Partial<TripDetails> | undefined => {
+  if (raw === undefined || raw === null) return undefined;
+  if (!isObject(raw)) {
+    notes.push('Trip details were unreadable and were ignored.');
+    return undefined;
+  }
+  const text = (value: unknown) => (typeof value === 'string' ? value : '');
+  const dateOnly = (value: unknown) => (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : '');
+  const homeCurrency = text(raw.homeCurrency).toUpperCase();
+  const homeTimeZone = text(raw.homeTimeZone);
+  return {
+    name: text(raw.name),
+    startDate: dateOnly(raw.startDate),
+    endDate: dateOnly(raw.endDate),
+    homeCurrency: /^[A-Z]{3}$/.test(homeCurrency) ? homeCurrency : '',
+    homeTimeZone: isValidTimeZone(homeTimeZone) ? homeTimeZone : '',
+    travelers: Array.isArray(raw.travelers) ? raw.travelers.filter((t): t is string => typeof t === 'string') : []
+  };
+};
+
+// Validates every row, keeping the good ones and reporting the rest
+export const validateEventList = (rawEvents: unknown[]): { events: TravelEvent[]; report: ImportReport } => {
+  const report: ImportReport = { imported: 0, fixed: [], rejected: [], notes: [] };
+  const events: TravelEvent[] = [];
+  const seenIds = new Set<string>();
+
+  rawEvents.forEach((raw, index) => {
+    const { event, errors, fixes } = validateEvent(raw);
+    const title = isObject(raw) && typeof raw.title === 'string' && raw.title ? raw.title : `Row ${index + 1}`;
+    if (!event) {
+      report.rejected.push({ index, title, errors, raw });
+      return;
+    }
+    if (seenIds.has(event.id)) {
+      event.id = crypto.randomUUID();
+      fixes.push('id: duplicate, generated a new one');
+    }
+    seenIds.add(event.id);
+    if (fixes.length > 0) report.fixed.push({ title: event.title, fixes });
+    events.push(event);
+  });
+
+  report.imported = events.length;
+  return { events, report };
+};
@@ -4,4 +4,8 @@ import react from '@vitejs/plugin-react'
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  build: {
+    // Read by public/sw.js to cache chunks that index.html doesn't reference
+    manifest: 'asset-manifest.json',
+  },
 })